@@ -7,6 +7,7 @@ import {
   KataxRedisError,
   KataxWebSocketError,
   KataxRegistryError,
+  KataxLockError,
 } from './errors.js';
 
 describe('Katax error classes', () => {
@@ -55,4 +56,10 @@ describe('Katax error classes', () => {
     const err = new KataxRegistryError('Registry failed');
     expect(err.code).toBe('KATAX_REGISTRY_ERROR');
   });
+
+  it('creates KataxLockError with stable code', () => {
+    const err = new KataxLockError('Lock busy', { resource: 'job' });
+    expect(err.code).toBe('KATAX_LOCK_ERROR');
+    expect(err.details).toEqual({ resource: 'job' });
+  });
 });
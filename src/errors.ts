@@ -44,6 +44,12 @@ export class KataxWebSocketError extends KataxServiceError {
   }
 }
 
+export class KataxLockError extends KataxServiceError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('KATAX_LOCK_ERROR', message, details);
+  }
+}
+
 export class KataxRegistryError extends KataxServiceError {
   constructor(message: string, details?: Record<string, unknown>) {
     super('KATAX_REGISTRY_ERROR', message, details);
@@ -12,6 +12,7 @@ export {
   KataxRedisError,
   KataxWebSocketError,
   KataxRegistryError,
+  KataxLockError,
 } from './errors.js';
 export type {
   KataxConfig,
@@ -30,29 +31,106 @@ export type {
   LogEntry,
   LogTransport,
   DatabaseConfig,
+  DatabaseRetryConfig,
+  RegisterDatabaseOptions,
+  DatabaseQueryStats,
+  QueryEvent,
   WebSocketConfig,
   CronConfig,
   CronJobConfig,
+  CronIntervalSchedule,
+  CronOneShotSchedule,
+  CronDistributedOptions,
+  CronRetryOptions,
+  CronJobInfo,
+  CronRun,
+  CronHistoryStore,
+  CronHistoryConfig,
+  CronHistoryOptions,
+  CronCommand,
+  CronCommandResult,
+  CronCommandOptions,
+  CronLastRunStore,
+  CronLastRunConfig,
   PostgreSQLConnectionOptions,
   MySQLConnectionOptions,
+  SQLiteConnectionOptions,
+  SqlConnectionTarget,
+  ReplicatedConnectionOptions,
+  ReplicaSelection,
+  ReplicaStatus,
   MongoDBConnectionOptions,
   RedisConnectionOptions,
+  RedisStandaloneConnectionOptions,
+  RedisSentinelConnectionOptions,
+  RedisClusterConnectionOptions,
+  RedisNodeAddress,
   PoolConfig,
+  MigrationConfig,
+  MigrationModule,
+  MigrationRunOptions,
+  MigrationStatus,
+  IMigrationRunner,
   IConfigService,
   ILoggerService,
   IDatabaseService,
   ISqlDatabase,
+  ISqlTransaction,
+  ISqlExecutor,
+  SqlFragment,
+  SqlWhere,
+  SqlWriteOptions,
+  SqlUpsertOptions,
+  SqlSelectOptions,
+  SqlWriteResult,
+  StreamOptions,
+  MongoStreamOptions,
+  SqlTransactionOptions,
+  SqlIsolationLevel,
   IMongoDatabase,
+  IMongoCollection,
+  IMongoCursor,
+  IMongoSession,
+  MongoFilter,
+  MongoOptionalId,
+  MongoOperationOptions,
+  MongoUpdateResult,
+  MongoDeleteResult,
+  MongoTransactionOptions,
   IRedisDatabase,
+  RedisMessageHandler,
+  CacheOptions,
+  CacheL1Options,
+  CacheSerializer,
+  CacheSetOptions,
+  CacheGetOrSetOptions,
+  RateLimitStrategy,
+  RateLimiterOptions,
+  RateLimitResult,
+  RateLimitResponse,
+  RateLimitMiddlewareOptions,
+  LockOptions,
+  LockRetryOptions,
+  LockAcquireOptions,
+  LockHandle,
   IWebSocketService,
   ICronService,
 } from './types.js';
 export { ConfigService } from './services/config.service.js';
 export { LoggerService } from './services/logger.service.js';
-export { DatabaseService } from './services/database.service.js';
+export { DatabaseService, type DatabaseServiceOptions } from './services/database.service.js';
 export { WebSocketService } from './services/websocket.service.js';
-export { CronService } from './services/cron.service.js';
+export { CronService, type CronServiceOptions } from './services/cron.service.js';
+export { RedisCronHistoryStore, SqlCronHistoryStore } from './services/cron-history.service.js';
+export {
+  MemoryCronLastRunStore,
+  FileCronLastRunStore,
+  RedisCronLastRunStore,
+} from './services/cron-last-run.service.js';
+export { MigrationService } from './services/migration.service.js';
 export { CacheService } from './services/cache.service.js';
+export { RateLimiterService } from './services/rate-limiter.service.js';
+export { LockService } from './services/lock.service.js';
 export { RegistryService } from './services/registry.service.js';
 export {
   RedisStreamBridgeService,
@@ -63,6 +141,13 @@ export type { RedisTransportOptions } from './services/transports/redis.transpor
 export { CallbackTransport } from './services/transports/callback.transport.js';
 export { TelegramTransport } from './services/transports/telegram.transport.js';
 export type { TelegramTransportOptions } from './services/transports/telegram.transport.js';
+export { sql } from './utils/sql.js';
+export {
+  jsonSerializer,
+  typedJsonSerializer,
+  compressedSerializer,
+  type CompressedSerializerOptions,
+} from './utils/serializers.js';
 export {
   registerVersionToRedis,
   startHeartbeat,
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Katax } from './katax.js';
 import type { IDatabaseService, ILoggerService } from './types.js';
 import { KataxConfigError, KataxDatabaseError } from './errors.js';
+import { DatabaseService } from './services/database.service.js';
 
 describe('Katax lifecycle hooks', () => {
   const originalNodeEnv = process.env['NODE_ENV'];
@@ -176,4 +177,59 @@ describe('Katax lifecycle hooks', () => {
 
     expect(() => katax.db('not-found-db')).toThrow(KataxDatabaseError);
   });
+
+  it('reconnects non-required databases in the background', async () => {
+    const katax = new Katax();
+    await katax.init();
+
+    const init = vi
+      .spyOn(DatabaseService.prototype, 'init')
+      .mockRejectedValueOnce(new Error('connection refused'))
+      .mockResolvedValue(undefined);
+
+    try {
+      const config = {
+        name: 'optional',
+        type: 'postgresql' as const,
+        connection: 'postgresql://localhost/test',
+        required: false,
+        retry: { attempts: 1, maxDelayMs: 5, backgroundReconnect: true },
+      };
+
+      await expect(katax.database(config)).resolves.toBeNull();
+      await expect(katax.database(config)).resolves.toBeNull();
+      expect(() => katax.db('optional')).toThrow(KataxDatabaseError);
+
+      await vi.waitFor(() => expect(katax.db('optional')).toBeInstanceOf(DatabaseService));
+      expect(init).toHaveBeenCalledTimes(2);
+    } finally {
+      init.mockRestore();
+      await katax.shutdown();
+    }
+  });
+
+  it('registers lazy databases and reports them as unopened in health checks', async () => {
+    const katax = new Katax();
+    await katax.init();
+
+    const init = vi.spyOn(DatabaseService.prototype, 'init');
+
+    try {
+      const db = katax.registerDatabase(
+        { name: 'reports', type: 'postgresql', connection: 'postgresql://localhost/test' },
+        { lazy: true }
+      );
+
+      expect(katax.db('reports')).toBe(db);
+      expect(init).not.toHaveBeenCalled();
+
+      const health = await katax.healthCheck();
+      expect(health.services.unopenedDatabases).toEqual(['reports']);
+      expect(health.services.databases).toEqual({});
+      expect(health.status).toBe('healthy');
+    } finally {
+      init.mockRestore();
+      await katax.shutdown();
+    }
+  });
 });
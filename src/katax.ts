@@ -2,6 +2,15 @@ import { LoggerService } from './services/logger.service.js';
 import { DatabaseService } from './services/database.service.js';
 import { WebSocketService } from './services/websocket.service.js';
 import { CacheService } from './services/cache.service.js';
+import { RateLimiterService } from './services/rate-limiter.service.js';
+import { LockService } from './services/lock.service.js';
+import type { CronService } from './services/cron.service.js';
+import { RedisCronHistoryStore, SqlCronHistoryStore } from './services/cron-history.service.js';
+import {
+  FileCronLastRunStore,
+  MemoryCronLastRunStore,
+  RedisCronLastRunStore,
+} from './services/cron-last-run.service.js';
 import { RegistryService } from './services/registry.service.js';
 import { BootstrapService } from './services/bootstrap.service.js';
 import { HealthService } from './services/health.service.js';
@@ -20,15 +29,23 @@ import type {
   ISqlDatabase,
   IMongoDatabase,
   IRedisDatabase,
+  RegisterDatabaseOptions,
   IWebSocketService,
   ICronService,
   CronJobConfig,
+  CronHistoryConfig,
+  CronLastRunConfig,
+  CronCommandOptions,
+  CronLastRunStore,
   DatabaseConfig,
   WebSocketConfig,
   KataxInitConfig,
   KataxLifecycleHooks,
   HealthCheckResult,
   ServiceInfo,
+  CacheOptions,
+  RateLimiterOptions,
+  LockOptions,
 } from './types.js';
 import {
   KataxConfigError,
@@ -69,6 +86,7 @@ export class Katax {
   private _databases: Map<string, IDatabaseService> = new Map();
   private _sockets: Map<string, IWebSocketService> = new Map();
   private _pendingDatabases: Map<string, Promise<IDatabaseService>> = new Map();
+  private _databaseReconnects: Map<string, { stop: () => void }> = new Map();
   private _pendingSockets: Map<string, Promise<IWebSocketService>> = new Map();
   private _cacheInstances: Map<string, CacheService> = new Map();
   private _bridges: Map<string, RedisStreamBridgeService> = new Map();
@@ -170,7 +188,8 @@ export class Katax {
     const bootstrapResult = await this._bootstrapService.initialize(
       config,
       this._appName,
-      this._logger ?? undefined
+      this._logger ?? undefined,
+      { locks: (redisName) => this.lock(redisName) }
     );
     this._config = bootstrapResult.config;
     this._logger = bootstrapResult.logger;
@@ -275,10 +294,10 @@ export class Katax {
    * }
    */
   public async database(
-    config: DatabaseConfig & { type: 'postgresql' | 'mysql'; required?: true }
+    config: DatabaseConfig & { type: 'postgresql' | 'mysql' | 'sqlite'; required?: true }
   ): Promise<ISqlDatabase>;
   public async database(
-    config: DatabaseConfig & { type: 'postgresql' | 'mysql'; required: false }
+    config: DatabaseConfig & { type: 'postgresql' | 'mysql' | 'sqlite'; required: false }
   ): Promise<ISqlDatabase | null>;
   public async database(
     config: DatabaseConfig & { type: 'mongodb'; required?: true }
@@ -321,6 +340,13 @@ export class Katax {
       return this._pendingDatabases.get(config.name)!;
     }
 
+    if (this._databaseReconnects.has(config.name)) {
+      this._logger!.debug({
+        message: `Database '${config.name}' is reconnecting in the background`,
+      });
+      return null;
+    }
+
     const initPromise = this.createDatabase(config);
     this._pendingDatabases.set(config.name, initPromise);
 
@@ -333,6 +359,15 @@ export class Katax {
       const errorMessage = error instanceof Error ? error.message : String(error);
 
       if (config.required === false) {
+        if (config.retry?.backgroundReconnect) {
+          this._logger!.warn({
+            message: `Database '${config.name}' connection failed (non-required), reconnecting in the background`,
+            err: error,
+          });
+          this.startDatabaseReconnect(config as DatabaseConfig & { name: string });
+          return null;
+        }
+
         this._logger!.warn({
           message: `Database '${config.name}' connection failed (non-required), continuing without it`,
           err: error,
@@ -350,6 +385,136 @@ export class Katax {
     }
   }
 
+  /**
+   * Declare a database connection without awaiting it.
+   * The connection is available through katax.db(name) immediately; its pool is opened
+   * on first use (`lazy: true`) or in the background right away (default).
+   * Concurrent first callers share a single open, and a failed open is retried on the next use.
+   *
+   * @example
+   * katax.registerDatabase(
+   *   { name: 'reports', type: 'postgresql', connection: process.env.REPORTS_URL! },
+   *   { lazy: true }
+   * );
+   *
+   * // Later, the first query opens the pool
+   * const rows = await katax.db('reports').query('SELECT * FROM daily_totals');
+   */
+  public registerDatabase(
+    config: DatabaseConfig & { type: 'postgresql' | 'mysql' | 'sqlite' },
+    options?: RegisterDatabaseOptions
+  ): ISqlDatabase;
+  public registerDatabase(
+    config: DatabaseConfig & { type: 'mongodb' },
+    options?: RegisterDatabaseOptions
+  ): IMongoDatabase;
+  public registerDatabase(
+    config: DatabaseConfig & { type: 'redis' },
+    options?: RegisterDatabaseOptions
+  ): IRedisDatabase;
+  public registerDatabase(
+    config: DatabaseConfig,
+    options?: RegisterDatabaseOptions
+  ): IDatabaseService;
+  public registerDatabase(
+    config: DatabaseConfig,
+    options: RegisterDatabaseOptions = {}
+  ): IDatabaseService {
+    this.ensureInitialized();
+    if (!config.name) {
+      throw new KataxDatabaseError('Database name is required');
+    }
+
+    const dbOverride = this.getOverride<IDatabaseService>(`db:${config.name}`);
+    if (dbOverride) {
+      return dbOverride;
+    }
+
+    const existing = this._databases.get(config.name);
+    if (existing) {
+      return existing;
+    }
+
+    if (this._pendingDatabases.has(config.name) || this._databaseReconnects.has(config.name)) {
+      throw new KataxDatabaseError(
+        `Database '${config.name}' is already connecting, use await katax.database() instead`,
+        { name: config.name, type: config.type }
+      );
+    }
+
+    const name = config.name;
+    const db = new DatabaseService(config, this._logger!, { lazy: true });
+    this._databases.set(name, db);
+
+    if (options.lazy) {
+      this._logger!.info({ message: `Database '${name}' registered, connecting on first use` });
+    } else {
+      this._logger!.info({ message: `Database '${name}' registered, connecting...` });
+      db.init().then(
+        () => {
+          this._logger!.info({ message: `Database '${name}' connected successfully` });
+        },
+        (error: unknown) => {
+          this._logger!.warn({
+            message: `Database '${name}' connection failed, retrying on first use`,
+            err: error,
+          });
+        }
+      );
+    }
+
+    return db;
+  }
+
+  /**
+   * Keep reconnecting a non-required database until it connects or katax shuts down.
+   * Each round runs the full `retry` policy; rounds are spaced by the maximum retry delay.
+   */
+  private startDatabaseReconnect(config: DatabaseConfig & { name: string }): void {
+    let stopped = false;
+    let timer: NodeJS.Timeout | null = null;
+    const delay = config.retry?.maxDelayMs ?? 30000;
+
+    const attempt = async (): Promise<void> => {
+      try {
+        const db = await this.createDatabase(config);
+        if (stopped) {
+          await db.close();
+          return;
+        }
+        this._databaseReconnects.delete(config.name);
+        this._databases.set(config.name, db);
+        this._logger!.info({
+          message: `Database '${config.name}' connected after background reconnect`,
+        });
+      } catch (error) {
+        if (stopped) {
+          return;
+        }
+        this._logger!.debug({
+          message: `Database '${config.name}' background reconnect failed, next round in ${String(delay)}ms`,
+          err: error,
+        });
+        schedule();
+      }
+    };
+
+    const schedule = (): void => {
+      timer = setTimeout(() => void attempt(), delay);
+      timer.unref();
+    };
+
+    this._databaseReconnects.set(config.name, {
+      stop: () => {
+        stopped = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+      },
+    });
+    schedule();
+  }
+
   /**
    * Internal method to create database connection
    */
@@ -357,7 +522,7 @@ export class Katax {
     this._logger!.info({
       message: `Creating ${config.type} database connection '${config.name}'...`,
     });
-    const db = new DatabaseService(config);
+    const db = new DatabaseService(config, this._logger!);
     await db.init();
     return db;
   }
@@ -449,12 +614,13 @@ export class Katax {
         message: `Creating WebSocket server '${config.name}' on port ${config.port ?? 3001}...`,
       });
     }
-    const socket = new WebSocketService(config);
+    const socket = new WebSocketService(config, this._logger!);
     await socket.init();
 
     if (this._sockets.size === 0) {
       (this._logger as LoggerService).setSocketService(socket);
-      this._logger!.debug({ message: 'Logger connected to WebSocket for broadcasting' });
+      (this._cronService as CronService).setSocketService(socket);
+      this._logger!.debug({ message: 'Logger and cron connected to WebSocket for broadcasting' });
     }
 
     return socket;
@@ -576,11 +742,105 @@ export class Katax {
     this._cronService!.addJob(job);
   }
 
+  /**
+   * Record every cron job run in a Redis stream or SQL table, queryable with
+   * `katax.cronService.getHistory(name)`
+   *
+   * @param config - Database name and store options
+   *
+   * @example
+   * await katax.database({ name: 'redis', type: 'redis', connection: process.env.REDIS_URL! });
+   * katax.cronHistory({ database: 'redis', maxLen: 500 });
+   *
+   * @example
+   * katax.cronHistory({ database: 'main', table: 'cron_runs' });
+   */
+  public cronHistory(config: CronHistoryConfig): void {
+    this.ensureInitialized();
+
+    const type = this._databases.get(config.database)?.config?.type;
+    let store: RedisCronHistoryStore | SqlCronHistoryStore;
+
+    if (type === 'redis') {
+      store = new RedisCronHistoryStore(this.redisConnection(config.database), {
+        streamKey: config.streamKey ?? `${this._appName}:cron:history`,
+        ...(config.maxLen !== undefined && { maxLen: config.maxLen }),
+      });
+    } else if (type === 'postgresql' || type === 'mysql' || type === 'sqlite') {
+      store = new SqlCronHistoryStore(
+        (this.db(config.database) as DatabaseService).asSql(),
+        config.table
+      );
+    } else {
+      throw new KataxDatabaseError(
+        type
+          ? `Database '${config.database}' cannot store cron history (type: ${type})`
+          : `Database '${config.database}' not found. Create it first using katax.database()`
+      );
+    }
+
+    (this._cronService as CronService).setHistoryStore(store);
+  }
+
+  /**
+   * Opt-in command channel: lets clients of a WebSocket trigger, pause and resume
+   * cron jobs with the `cron:command` event, when `authorize` accepts the command
+   *
+   * @param socketName - Name of the WebSocket created with katax.socket()
+   * @param options - Authorization callback
+   *
+   * @example
+   * katax.cronCommands('main', {
+   *   authorize: (command) => command.token === katax.envRequired('CRON_ADMIN_TOKEN'),
+   * });
+   * // client: socket.emit('cron:command', { action: 'trigger', job: 'cleanup', token, id: '1' });
+   * // client: socket.on('cron:command-result', ({ id, ok, run, error }) => { ... });
+   */
+  public cronCommands(socketName: string, options: CronCommandOptions): void {
+    this.ensureInitialized();
+    (this._cronService as CronService).listenForCommands(this.ws(socketName), options);
+  }
+
+  /**
+   * Choose where cron jobs with `catchUp` remember their last scheduled run.
+   * Call it before adding those jobs: missed ticks are caught up when a job is added.
+   *
+   * @param config - Built-in store (memory, JSON file or Redis hash) or a custom store
+   *
+   * @example
+   * katax.cronLastRun({ type: 'redis', database: 'redis' });
+   * katax.cron({ name: 'nightly', schedule: '0 2 * * *', catchUp: 'once', task: runNightly });
+   *
+   * @example
+   * katax.cronLastRun({ type: 'file', path: './data/cron-last-run.json' });
+   */
+  public cronLastRun(config: CronLastRunConfig | CronLastRunStore): void {
+    this.ensureInitialized();
+
+    let store: CronLastRunStore;
+    if (!('type' in config)) {
+      store = config;
+    } else if (config.type === 'redis') {
+      store = new RedisCronLastRunStore(
+        this.redisConnection(config.database),
+        config.key ?? `${this._appName}:cron:last-run`
+      );
+    } else if (config.type === 'file') {
+      store = new FileCronLastRunStore(config.path);
+    } else {
+      store = new MemoryCronLastRunStore();
+    }
+
+    (this._cronService as CronService).setLastRunStore(store);
+  }
+
   /**
    * Create a cache service instance using a Redis connection
    * Instances are cached and reused for the same Redis connection
    *
    * @param redisName - Name of the Redis database connection (default: 'cache')
+   * @param options - Cache options: L1 tier, key prefix (default: app name) and serializer.
+   * Used when the instance is first created.
    * @returns CacheService instance with high-level cache operations
    *
    * @example
@@ -594,7 +854,7 @@ export class Katax {
    * await cache.set('user:123', user, 3600);
    * const cached = await cache.get<User>('user:123');
    */
-  public cache(redisName: string = 'cache'): CacheService {
+  public cache(redisName: string = 'cache', options: CacheOptions = {}): CacheService {
     this.ensureInitialized();
 
     const cacheOverride = this.getOverride<CacheService>(`cache:${redisName}`);
@@ -620,11 +880,98 @@ export class Katax {
       );
     }
 
-    const cacheInstance = new CacheService((redis as DatabaseService).asRedis());
+    const cacheInstance = new CacheService((redis as DatabaseService).asRedis(), this._logger!, {
+      ...options,
+      prefix: options.prefix ?? this._appName,
+    });
     this._cacheInstances.set(redisName, cacheInstance);
     return cacheInstance;
   }
 
+  /**
+   * Create a Redis-backed rate limiter
+   * Each call returns a new limiter; create it once per policy and reuse it
+   *
+   * @param redisName - Name of the Redis database connection
+   * @param options - Points per duration (seconds), strategy and key prefix (default: app name)
+   * @returns RateLimiterService with atomic consume(), block() and a middleware helper
+   *
+   * @example
+   * const loginLimiter = katax.rateLimiter('cache', { points: 5, duration: 60, strategy: 'sliding' });
+   *
+   * const { allowed, retryAfterMs } = await loginLimiter.consume(`login:${email}`);
+   * app.use('/api', katax.rateLimiter('cache', { points: 100, duration: 60 }).middleware({
+   *   key: (req) => req.headers['x-api-key'] ?? req.ip,
+   * }));
+   */
+  public rateLimiter(redisName: string, options: RateLimiterOptions): RateLimiterService {
+    this.ensureInitialized();
+
+    const limiterOverride = this.getOverride<RateLimiterService>(`rateLimiter:${redisName}`);
+    if (limiterOverride) {
+      return limiterOverride;
+    }
+
+    return new RateLimiterService(this.redisConnection(redisName), {
+      ...options,
+      prefix: options.prefix ?? this._appName,
+    });
+  }
+
+  /**
+   * Create a distributed lock service
+   * With several Redis connections, locks are only granted by a majority of them
+   * (Redlock), so losing a minority of instances does not break mutual exclusion.
+   *
+   * @param redisNames - Redis connection name, or independent connections for quorum locking (default: 'cache')
+   * @param options - Key prefix (default: app name)
+   * @returns LockService with acquire() and withLock()
+   *
+   * @example
+   * const locks = katax.lock('cache');
+   * const lock = await locks.acquire('billing:run', { ttlMs: 30_000, retry: { attempts: 3 } });
+   *
+   * @example
+   * // Quorum across three independent Redis servers
+   * await katax.lock(['redis-a', 'redis-b', 'redis-c']).withLock('payouts', runPayouts);
+   */
+  public lock(redisNames: string | string[] = 'cache', options: LockOptions = {}): LockService {
+    this.ensureInitialized();
+
+    const names = Array.isArray(redisNames) ? redisNames : [redisNames];
+    const lockOverride = this.getOverride<LockService>(`lock:${names.join(',')}`);
+    if (lockOverride) {
+      return lockOverride;
+    }
+
+    return new LockService(
+      names.map((name) => this.redisConnection(name)),
+      { ...options, prefix: options.prefix ?? this._appName },
+      this._logger!
+    );
+  }
+
+  /**
+   * Named Redis connection, for services built on top of Redis
+   */
+  private redisConnection(redisName: string): IRedisDatabase {
+    const redis = this._databases.get(redisName);
+
+    if (!redis) {
+      throw new KataxRedisError(
+        `Redis connection '${redisName}' not found. Create it first using katax.database()`
+      );
+    }
+
+    if (redis.config?.type !== 'redis') {
+      throw new KataxRedisError(
+        `Database '${redisName}' is not a Redis connection (type: ${String(redis.config?.type)})`
+      );
+    }
+
+    return (redis as DatabaseService).asRedis();
+  }
+
   /**
    * Create a Redis Stream Bridge for broadcasting logs from Redis to WebSocket
    * Instances are cached and reused for the same configuration.
@@ -957,6 +1304,11 @@ export class Katax {
       );
     }
 
+    for (const reconnect of this._databaseReconnects.values()) {
+      reconnect.stop();
+    }
+    this._databaseReconnects.clear();
+
     const shutdownResult = await this._lifecycleService.shutdown({
       logger: this._logger!,
       databases: this._databases,
@@ -1002,6 +1354,10 @@ export class Katax {
       Katax.instance._hooks = null;
       Katax.instance._overrides.clear();
       Katax.instance._databases.clear();
+      for (const reconnect of Katax.instance._databaseReconnects.values()) {
+        reconnect.stop();
+      }
+      Katax.instance._databaseReconnects.clear();
       Katax.instance._sockets.clear();
       Katax.instance._cacheInstances.clear();
       Katax.instance._bridges.clear();
@@ -1,6 +1,6 @@
 import { ConfigService } from './config.service.js';
 import { LoggerService } from './logger.service.js';
-import { CronService } from './cron.service.js';
+import { CronService, type CronServiceOptions } from './cron.service.js';
 import type { IConfigService, ILoggerService, ICronService, KataxInitConfig } from '../types.js';
 
 export interface BootstrapResult {
@@ -17,7 +17,8 @@ export class BootstrapService {
   public async initialize(
     initConfig?: KataxInitConfig,
     fallbackAppName?: string,
-    existingLogger?: ILoggerService
+    existingLogger?: ILoggerService,
+    cronOptions?: CronServiceOptions
   ): Promise<BootstrapResult> {
     const config = new ConfigService();
     let logger: ILoggerService;
@@ -41,7 +42,7 @@ export class BootstrapService {
 
     logger.setAppName(resolvedAppName);
 
-    const cronService = new CronService();
+    const cronService = new CronService({ ...cronOptions, logger });
     await cronService.init();
 
     return {
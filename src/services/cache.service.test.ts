@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { CacheService } from './cache.service.js';
+import { typedJsonSerializer } from '../utils/serializers.js';
 import type { IRedisDatabase } from '../types.js';
 
 describe('CacheService.clear', () => {
@@ -66,3 +67,385 @@ describe('CacheService.clear', () => {
     expect(redis).not.toHaveBeenCalled();
   });
 });
+
+interface StoredValue {
+  value: string;
+  expiresAt: number | null;
+}
+
+function createRedisStore(): {
+  db: IRedisDatabase;
+  data: Map<string, StoredValue>;
+  tags: Map<string, Set<string>>;
+  redis: ReturnType<typeof vi.fn>;
+} {
+  const data = new Map<string, StoredValue>();
+  const tags = new Map<string, Set<string>>();
+  const read = (key: string): StoredValue | undefined => {
+    const entry = data.get(key);
+    if (entry?.expiresAt !== null && entry !== undefined && entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+  const dropKeys = (prefix: string, keys: string[]): number =>
+    keys.filter((key) => {
+      const keyTags = `${prefix}katax:key-tags:${key.slice(prefix.length)}`;
+      tags.get(keyTags)?.forEach((tag) => tags.get(`${prefix}katax:tag:${tag}`)?.delete(key));
+      tags.delete(keyTags);
+      return data.delete(key);
+    }).length;
+
+  const redis = vi.fn(async (...args: (string | number | Buffer)[]) => {
+    const [command, key = '', ...rest] = args.map(String);
+    switch (command) {
+      case 'GET':
+        return read(key)?.value ?? null;
+      case 'SET': {
+        if (rest.includes('NX') && read(key)) return null;
+        const ex = rest.indexOf('EX');
+        const px = rest.indexOf('PX');
+        const ttlMs =
+          ex !== -1 ? Number(rest[ex + 1]) * 1000 : px !== -1 ? Number(rest[px + 1]) : null;
+        data.set(key, {
+          value: rest[0] ?? '',
+          expiresAt: ttlMs === null ? null : Date.now() + ttlMs,
+        });
+        return 'OK';
+      }
+      case 'DEL':
+        return [key, ...rest].filter((name) => data.delete(name) || tags.delete(name)).length;
+      case 'EXPIRE': {
+        const entry = read(key);
+        if (entry) entry.expiresAt = Date.now() + Number(rest[0]) * 1000;
+        return entry || tags.has(key) ? 1 : 0;
+      }
+      case 'MSET':
+        for (let i = 0; i < args.length - 1; i += 2) {
+          data.set(String(args[i + 1]), { value: String(args[i + 2]), expiresAt: null });
+        }
+        return 'OK';
+      case 'MGET':
+        return [key, ...rest].map((name) => read(name)?.value ?? null);
+      case 'PTTL': {
+        const entry = read(key);
+        return !entry ? -2 : entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+      }
+      case 'INFO':
+        return 'keyspace_hits:10\r\nkeyspace_misses:2\r\n';
+      case 'EVAL': {
+        const keys = rest.slice(1, 1 + Number(rest[0]));
+        const argv = rest.slice(1 + keys.length);
+        const [name = '', keyTags = ''] = keys;
+        if (key.includes("'SET', KEYS[1]")) {
+          const [prefix = '', value = '', ttl, , ...newTags] = argv;
+          tags.get(keyTags)?.forEach((tag) => {
+            if (!newTags.includes(tag)) tags.get(`${prefix}katax:tag:${tag}`)?.delete(name);
+          });
+          tags.delete(keyTags);
+          data.set(name, {
+            value,
+            expiresAt: Number(ttl) > 0 ? Date.now() + Number(ttl) * 1000 : null,
+          });
+          if (newTags.length > 0) {
+            tags.set(keyTags, new Set(newTags));
+            keys
+              .slice(2)
+              .forEach((tagKey) => tags.set(tagKey, (tags.get(tagKey) ?? new Set()).add(name)));
+          }
+          return 'OK';
+        }
+        if (key.includes('return dropKeys(KEYS)')) {
+          return dropKeys(argv[0] ?? '', keys);
+        }
+        if (key.includes('dropKeys(members)')) {
+          const members = Array.from(tags.get(name) ?? []);
+          const deleted = dropKeys(argv[0] ?? '', members);
+          tags.delete(name);
+          return [deleted, members];
+        }
+        if (key.includes('PTTL')) {
+          const entry = read(name);
+          return [
+            entry?.value ?? null,
+            !entry ? -2 : entry.expiresAt === null ? -1 : entry.expiresAt - Date.now(),
+          ];
+        }
+        if (read(name)?.value === argv[0]) {
+          data.delete(name);
+          return 1;
+        }
+        return 0;
+      }
+      default:
+        throw new Error(`Unexpected command ${command ?? ''}`);
+    }
+  });
+
+  const db: IRedisDatabase = {
+    config: { type: 'redis', connection: 'redis://localhost:6379' },
+    init: async () => undefined,
+    getClient: async () => ({}),
+    redis,
+    publish: vi.fn(async () => 0),
+    subscribe: vi.fn(async () => async () => undefined),
+    unsubscribe: vi.fn(async () => undefined),
+    close: async () => undefined,
+  };
+  return { db, data, tags, redis };
+}
+
+describe('CacheService.getOrSet', () => {
+  it('runs the loader once for concurrent misses and stores ttl + stale window', async () => {
+    const { db, data } = createRedisStore();
+    const service = new CacheService(db);
+    const loader = vi.fn(async () => ({ id: 1 }));
+
+    const results = await Promise.all([
+      service.getOrSet('user:1', loader, { ttl: 60, staleWhileRevalidate: 30 }),
+      service.getOrSet('user:1', loader, { ttl: 60, staleWhileRevalidate: 30 }),
+    ]);
+
+    expect(results).toEqual([{ id: 1 }, { id: 1 }]);
+    expect(loader).toHaveBeenCalledTimes(1);
+    const stored = data.get('user:1');
+    expect(JSON.parse(stored?.value ?? '')).toEqual({ id: 1 });
+    expect((stored?.expiresAt ?? 0) - Date.now()).toBeGreaterThan(89_000);
+    expect(data.has('user:1:lock')).toBe(false);
+
+    await expect(service.getOrSet('user:1', loader)).resolves.toEqual({ id: 1 });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves stale values while one caller refreshes in the background', async () => {
+    const { db, data } = createRedisStore();
+    const service = new CacheService(db);
+    data.set('config', { value: '"old"', expiresAt: Date.now() + 10_000 });
+
+    let resolveLoader: (value: string) => void = () => undefined;
+    const loader = vi.fn(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveLoader = resolve;
+        })
+    );
+
+    await expect(
+      service.getOrSet('config', loader, { ttl: 60, staleWhileRevalidate: 30 })
+    ).resolves.toBe('old');
+    await expect(
+      service.getOrSet('config', loader, { ttl: 60, staleWhileRevalidate: 30 })
+    ).resolves.toBe('old');
+    await vi.waitFor(() => {
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    resolveLoader('new');
+    await vi.waitFor(() => {
+      expect(data.get('config')?.value).toBe('"new"');
+    });
+  });
+
+  it('waits for the process holding the lock instead of recomputing', async () => {
+    const { db, data } = createRedisStore();
+    const service = new CacheService(db);
+    data.set('report:lock', { value: 'other-process', expiresAt: Date.now() + 5_000 });
+    setTimeout(() => {
+      data.set('report', { value: '{"total":3}', expiresAt: null });
+    }, 60);
+
+    const loader = vi.fn(async () => ({ total: 0 }));
+    await expect(service.getOrSet('report', loader, { lockTimeout: 2_000 })).resolves.toEqual({
+      total: 3,
+    });
+    expect(loader).not.toHaveBeenCalled();
+  });
+});
+
+describe('CacheService L1 tier', () => {
+  it('serves repeated reads from memory', async () => {
+    const { db, redis } = createRedisStore();
+    const service = new CacheService(db, undefined, { l1: { maxEntries: 10, ttlMs: 60_000 } });
+
+    await service.set('user:1', { id: 1 }, 60);
+    redis.mockClear();
+
+    await expect(service.get('user:1')).resolves.toEqual({ id: 1 });
+    await expect(service.mget(['user:1', 'user:2'])).resolves.toEqual([{ id: 1 }, null]);
+    expect(redis).toHaveBeenCalledTimes(1);
+    expect(redis).toHaveBeenCalledWith('MGET', 'user:2');
+    expect(db.publish).toHaveBeenCalledWith('katax:cache:invalidate', {
+      origin: expect.any(String),
+      prefix: '',
+      keys: ['user:1'],
+    });
+
+    const stats = await service.stats();
+    expect(stats['keyspace_hits']).toBe('10');
+    expect(stats['katax_l1_hits']).toBe('2');
+    expect(stats['katax_l1_hit_ratio']).toBe('0.6667');
+    expect(stats['katax_l2_hit_ratio']).toBe('0.0000');
+    expect(stats['katax_misses']).toBe('1');
+    expect(stats['katax_l1_entries']).toBe('1');
+  });
+
+  it('never keeps values in memory longer than their Redis TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { db, data } = createRedisStore();
+    const service = new CacheService(db, undefined, { l1: { ttlMs: 60_000 } });
+    data.set('user:1', { value: '1', expiresAt: Date.now() + 1000 });
+    data.set('user:2', { value: '2', expiresAt: Date.now() + 1000 });
+    data.set('user:3', { value: '3', expiresAt: null });
+
+    await expect(service.get('user:1')).resolves.toBe(1);
+    await expect(service.mget(['user:2', 'user:3'])).resolves.toEqual([2, 3]);
+    await service.expire('user:3', 1);
+
+    vi.advanceTimersByTime(1500);
+    await expect(service.mget(['user:1', 'user:2', 'user:3'])).resolves.toEqual([null, null, null]);
+    vi.useRealTimers();
+  });
+
+  it('drops entries invalidated by other replicas', async () => {
+    const { db, data } = createRedisStore();
+    const service = new CacheService(db, undefined, { l1: {} });
+    const [, handler] = vi.mocked(db.subscribe).mock.calls[0] ?? [];
+
+    await service.set('user:1', 'old');
+    data.set('user:1', { value: '"new"', expiresAt: null });
+
+    const [[, ownMessage]] = vi.mocked(db.publish).mock.calls as [[string, unknown]];
+    handler?.(ownMessage as never, 'katax:cache:invalidate');
+    await expect(service.get('user:1')).resolves.toBe('old');
+
+    handler?.({ origin: 'other-replica', prefix: '', keys: ['user:1'] }, 'katax:cache:invalidate');
+    await expect(service.get('user:1')).resolves.toBe('new');
+
+    await service.set('user:2', 'cached');
+    data.clear();
+    handler?.({ origin: 'other-replica', prefix: '' }, 'katax:cache:invalidate');
+    await expect(service.get('user:2')).resolves.toBeNull();
+  });
+});
+
+describe('CacheService tags', () => {
+  it('deletes every key stored under an invalidated tag', async () => {
+    const { db, data, tags, redis } = createRedisStore();
+    const service = new CacheService(db);
+
+    await service.set('user:1:orders', [1, 2], { ttl: 60, tags: ['user:1'] });
+    await service.getOrSet('user:1:profile', async () => ({ id: 1 }), {
+      ttl: 30,
+      tags: ['user:1', 'org:9'],
+    });
+    await service.set('user:2:orders', [3], 60);
+
+    expect(redis).toHaveBeenCalledWith(
+      'EVAL',
+      expect.stringContaining('ZADD'),
+      3,
+      'user:1:orders',
+      'katax:key-tags:user:1:orders',
+      'katax:tag:user:1',
+      '',
+      '[1,2]',
+      60,
+      expect.any(Number),
+      'user:1'
+    );
+    expect(tags.get('katax:tag:org:9')).toEqual(new Set(['user:1:profile']));
+    expect(tags.get('katax:key-tags:user:1:profile')).toEqual(new Set(['user:1', 'org:9']));
+
+    await expect(service.invalidateTags(['user:1'])).resolves.toBe(2);
+    await expect(service.invalidateTags([])).resolves.toBe(0);
+
+    expect(Array.from(data.keys())).toEqual(['user:2:orders']);
+    expect(tags.has('katax:tag:user:1')).toBe(false);
+    expect(tags.has('katax:key-tags:user:1:profile')).toBe(false);
+    expect(tags.get('katax:tag:org:9')).toEqual(new Set());
+  });
+
+  it('takes deleted keys out of their tag sets', async () => {
+    const { db, data, tags } = createRedisStore();
+    const service = new CacheService(db);
+
+    await service.set('user:1:orders', [1], { ttl: 60, tags: ['user:1'] });
+    await service.set('user:1:profile', { id: 1 }, { ttl: 60, tags: ['user:1'] });
+    await service.del('user:1:orders');
+    await service.delMany(['user:1:profile']);
+
+    expect(tags.get('katax:tag:user:1')).toEqual(new Set());
+    expect(tags.has('katax:key-tags:user:1:orders')).toBe(false);
+    await service.set('user:1:orders', [2], 60);
+    await expect(service.invalidateTags(['user:1'])).resolves.toBe(0);
+    expect(data.get('user:1:orders')?.value).toBe('[2]');
+  });
+
+  it('keeps plain commands on Redis Cluster unless the prefix is hash-tagged', async () => {
+    const { db, redis } = createRedisStore();
+    const cluster: IRedisDatabase = {
+      ...db,
+      config: {
+        type: 'redis',
+        connection: { cluster: { rootNodes: [{ host: 'redis-1' }] } },
+      },
+    };
+
+    const plain = new CacheService(cluster, undefined, { prefix: 'app' });
+    await plain.set('user:1', 1, 60);
+    await plain.del('user:1');
+    expect(redis).toHaveBeenCalledWith('SET', 'app:user:1', '1', 'EX', 60);
+    expect(redis).toHaveBeenCalledWith('DEL', 'app:user:1');
+    await expect(plain.set('user:1', 1, { tags: ['user'] })).rejects.toThrow(
+      "cache tags on Redis Cluster need a hash-tagged prefix such as '{app}'"
+    );
+    await expect(plain.invalidateTags(['user'])).rejects.toThrow('hash-tagged prefix');
+
+    const tagged = new CacheService(cluster, undefined, { prefix: '{app}' });
+    await tagged.set('user:1', 1, { ttl: 60, tags: ['user'] });
+    await expect(tagged.invalidateTags(['user'])).resolves.toBe(1);
+  });
+
+  it('removes a re-set key from the tag sets it no longer carries', async () => {
+    const { db, data, tags } = createRedisStore();
+    const service = new CacheService(db);
+
+    await service.set('user:1:orders', [1], { ttl: 60, tags: ['user:1', 'org:9'] });
+    await service.set('user:1:orders', [2], { ttl: 60, tags: ['org:9'] });
+    expect(tags.get('katax:tag:user:1')).toEqual(new Set());
+    expect(tags.get('katax:key-tags:user:1:orders')).toEqual(new Set(['org:9']));
+
+    await service.set('user:1:orders', [3], 60);
+    expect(tags.get('katax:tag:org:9')).toEqual(new Set());
+    expect(tags.has('katax:key-tags:user:1:orders')).toBe(false);
+
+    await expect(service.invalidateTags(['user:1', 'org:9'])).resolves.toBe(0);
+    expect(data.get('user:1:orders')?.value).toBe('[3]');
+  });
+});
+
+describe('CacheService prefix and serializer', () => {
+  it('namespaces every key and uses the configured serializer', async () => {
+    const { db, data, redis } = createRedisStore();
+    const service = new CacheService(db, undefined, {
+      prefix: 'api',
+      serializer: typedJsonSerializer,
+    });
+    const createdAt = new Date('2026-01-01T00:00:00.000Z');
+
+    await service.set('session:1', { createdAt }, 60);
+    await service.mset([['session:2', new Set([1])]]);
+
+    expect(Array.from(data.keys())).toEqual(['api:session:1', 'api:session:2']);
+    await expect(service.get('session:1')).resolves.toEqual({ createdAt });
+    await expect(service.mget(['session:2', 'missing'])).resolves.toEqual([new Set([1]), null]);
+    expect(redis).toHaveBeenCalledWith('MGET', 'api:session:2', 'api:missing');
+
+    redis.mockImplementationOnce(async () => ['0', ['api:session:1']]);
+    redis.mockImplementationOnce(async () => 1);
+    await expect(service.clear('session:*')).resolves.toBe(1);
+    expect(redis).toHaveBeenCalledWith('SCAN', '0', 'MATCH', 'api:session:*', 'COUNT', '500');
+    expect(redis).toHaveBeenLastCalledWith('DEL', 'api:session:1');
+  });
+});
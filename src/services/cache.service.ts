@@ -1,11 +1,186 @@
-import type { IRedisDatabase } from '../types.js';
+import { randomUUID } from 'crypto';
+import { backoffDelay, sleep } from '../utils/backoff.js';
+import { LruCache } from '../utils/lru-cache.js';
+import { hasHashTag } from '../utils/redis-cluster.js';
+import { jsonSerializer } from '../utils/serializers.js';
+import type {
+  CacheGetOrSetOptions,
+  CacheOptions,
+  CacheSerializer,
+  CacheSetOptions,
+  ILoggerService,
+  IRedisDatabase,
+} from '../types.js';
+
+/**
+ * GET and PTTL in one round trip. A missing key comes back as `false` (nil),
+ * which keeps the reply array intact.
+ */
+const GET_WITH_TTL_SCRIPT = "return { redis.call('GET', KEYS[1]), redis.call('PTTL', KEYS[1]) }";
+
+/**
+ * Delete the lock only if it still holds our token
+ */
+const RELEASE_LOCK_SCRIPT =
+  "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end";
+
+const TAG_KEY_PREFIX = 'katax:tag:';
+
+/** Set of the tags a key was last stored with, so a re-set can leave the old ones */
+const KEY_TAGS_PREFIX = 'katax:key-tags:';
+
+/**
+ * Lua helper deleting keys and taking them out of every tag set they were stored
+ * with. Scripts using it bind `prefix` (the cache namespace) first.
+ */
+const DROP_KEYS_LUA = `
+local function dropKeys(keys)
+  local deleted = 0
+  for _, key in ipairs(keys) do
+    local keyTags = prefix .. '${KEY_TAGS_PREFIX}' .. string.sub(key, #prefix + 1)
+    for _, tag in ipairs(redis.call('SMEMBERS', keyTags)) do
+      redis.call('ZREM', prefix .. '${TAG_KEY_PREFIX}' .. tag, key)
+    end
+    redis.call('DEL', keyTags)
+    deleted = deleted + redis.call('DEL', key)
+  end
+  return deleted
+end`;
+
+/**
+ * SET a value, leave the tag sets it no longer carries and record it in the new
+ * ones. Tag sets are scored by expiry time: expired members are pruned on every
+ * write and the set expires with its longest-lived member.
+ *
+ * KEYS: key, its key-tags set, the tag sets of the new tags.
+ * ARGV: prefix, value, ttl in seconds (0 = none), now in ms, the new tags.
+ */
+const WRITE_SCRIPT = `
+local prefix, ttl, now = ARGV[1], tonumber(ARGV[3]), tonumber(ARGV[4])
+local keep = {}
+for i = 5, #ARGV do keep[ARGV[i]] = true end
+for _, tag in ipairs(redis.call('SMEMBERS', KEYS[2])) do
+  if not keep[tag] then redis.call('ZREM', prefix .. '${TAG_KEY_PREFIX}' .. tag, KEYS[1]) end
+end
+redis.call('DEL', KEYS[2])
+if ttl > 0 then
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ttl)
+else
+  redis.call('SET', KEYS[1], ARGV[2])
+end
+if #KEYS == 2 then return 'OK' end
+redis.call('SADD', KEYS[2], unpack(ARGV, 5))
+if ttl > 0 then redis.call('EXPIRE', KEYS[2], ttl) end
+for i = 3, #KEYS do
+  redis.call('ZADD', KEYS[i], ttl > 0 and now + ttl * 1000 or '+inf', KEYS[1])
+  redis.call('ZREMRANGEBYSCORE', KEYS[i], '-inf', '(' .. now)
+  local expiresAt = tonumber(redis.call('ZRANGE', KEYS[i], -1, -1, 'WITHSCORES')[2])
+  if expiresAt == math.huge then
+    redis.call('PERSIST', KEYS[i])
+  else
+    redis.call('PEXPIREAT', KEYS[i], math.ceil(expiresAt))
+  end
+end
+return 'OK'`;
+
+/**
+ * Delete keys and drop them from their tag sets. KEYS: keys. ARGV: prefix.
+ */
+const DELETE_SCRIPT = `
+local prefix = ARGV[1]
+${DROP_KEYS_LUA}
+return dropKeys(KEYS)`;
+
+/**
+ * Delete every member of one tag set and the set itself, atomically.
+ * KEYS: tag set. ARGV: prefix. Returns { deleted count, members }.
+ */
+const INVALIDATE_TAG_SCRIPT = `
+local prefix = ARGV[1]
+${DROP_KEYS_LUA}
+local members = redis.call('ZRANGE', KEYS[1], 0, -1)
+local deleted = dropKeys(members)
+redis.call('DEL', KEYS[1])
+return { deleted, members }`;
+
+const TAGS_NEED_HASH_TAG =
+  "cache tags on Redis Cluster need a hash-tagged prefix such as '{app}', so tagged keys and tag sets share a slot";
+
+const LOCK_WAIT_BACKOFF = { baseDelayMs: 25, maxDelayMs: 250, jitter: 0.2 };
+
+const L1_INVALIDATION_CHANNEL = 'katax:cache:invalidate';
+
+/**
+ * L1 lifetime for a value read from Redis with `pttl` left (-1: no expiry, -2: gone)
+ */
+function l1Lifetime(pttl: number): number | undefined {
+  return pttl === -1 ? undefined : Math.max(pttl, 0);
+}
+
+function hitRatio(hits: number, lookups: number): string {
+  return lookups > 0 ? (hits / lookups).toFixed(4) : '0';
+}
+
+/**
+ * Escape glob characters so a literal string can be used in SCAN MATCH
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pub/sub message telling other replicas to drop L1 entries (all of them without `keys`).
+ * Keys are unprefixed; `prefix` keeps caches of different apps apart.
+ */
+interface L1Invalidation {
+  origin: string;
+  prefix: string;
+  keys?: string[];
+}
 
 /**
  * Cache service implementation using Redis
- * Provides high-level cache operations with automatic JSON serialization
+ * Provides high-level cache operations with automatic serialization (JSON by default)
+ * and optional key namespacing
  */
 export class CacheService {
-  constructor(private readonly redis: IRedisDatabase) {}
+  /** getOrSet() calls in progress in this process, by key */
+  private readonly inflight = new Map<string, Promise<unknown>>();
+  /** Keys being refreshed in the background after serving a stale value */
+  private readonly refreshing = new Set<string>();
+  /** In-process tier holding serialized values */
+  private readonly l1: LruCache<string> | null;
+  /** Identifies our own invalidation messages */
+  private readonly instanceId = randomUUID();
+  private invalidations: Promise<void> | null = null;
+  private l1Hits = 0;
+  private l2Hits = 0;
+  private misses = 0;
+  private readonly prefix: string;
+  private readonly serializer: CacheSerializer;
+  /**
+   * Tag scripts touch several keys: on Redis Cluster they need the whole namespace
+   * in one slot, i.e. a hash-tagged prefix. Without tags, writes are plain SETs.
+   */
+  private readonly tagsEnabled: boolean;
+
+  constructor(
+    private readonly redis: IRedisDatabase,
+    private readonly logger?: ILoggerService,
+    options: CacheOptions = {}
+  ) {
+    this.prefix = options.prefix ? `${options.prefix}:` : '';
+    this.serializer = options.serializer ?? jsonSerializer;
+    const { connection } = redis.config;
+    this.tagsEnabled =
+      typeof connection === 'string' || !('cluster' in connection) || hasHashTag(this.prefix);
+    this.l1 = options.l1
+      ? new LruCache(options.l1.maxEntries ?? 1000, options.l1.ttlMs ?? 5000)
+      : null;
+    if (this.l1) {
+      this.listenForInvalidations();
+    }
+  }
 
   /**
    * Get a value from cache
@@ -15,12 +190,27 @@ export class CacheService {
    * const user = await cache.get<User>('user:123');
    */
   public async get<T = unknown>(key: string): Promise<T | null> {
+    const cached = this.l1?.get(key);
+    if (cached !== undefined) {
+      this.l1Hits++;
+      return this.serializer.deserialize<T>(cached);
+    }
+
     try {
-      const value = await this.redis.redis('GET', key);
+      // With L1, read the remaining TTL too so the copy never outlives the key
+      const [value, pttl] = this.l1
+        ? ((await this.redis.redis('EVAL', GET_WITH_TTL_SCRIPT, 1, this.key(key))) as [
+            string | null,
+            number,
+          ])
+        : [(await this.redis.redis('GET', this.key(key))) as string | null, -1];
       if (!value) {
+        this.misses++;
         return null;
       }
-      return JSON.parse(value as string) as T;
+      this.l2Hits++;
+      this.remember(key, value, l1Lifetime(pttl));
+      return this.serializer.deserialize<T>(value);
     } catch (error) {
       throw new Error(
         `Cache get failed: ${error instanceof Error ? error.message : String(error)}`
@@ -29,24 +219,306 @@ export class CacheService {
   }
 
   /**
-   * Set a value in cache with optional TTL (time-to-live in seconds)
+   * Set a value in cache with optional TTL (time-to-live in seconds) and tags
    * Automatically serializes to JSON
    *
    * @example
    * await cache.set('user:123', user, 3600); // Expires in 1 hour
    * await cache.set('config', config); // No expiration
+   * await cache.set('user:123:orders', orders, { ttl: 600, tags: ['user:123'] });
    */
-  public async set(key: string, value: unknown, ttl?: number): Promise<void> {
+  public async set(key: string, value: unknown, options?: number | CacheSetOptions): Promise<void> {
+    const { ttl, tags }: CacheSetOptions =
+      typeof options === 'number' ? { ttl: options } : (options ?? {});
     try {
-      const serialized = JSON.stringify(value);
-      if (ttl) {
-        await this.redis.redis('SET', key, serialized, 'EX', ttl);
+      const serialized = this.serializer.serialize(value);
+      await this.write(key, serialized, ttl ?? 0, tags);
+      this.remember(key, serialized, ttl ? ttl * 1000 : undefined);
+      await this.publishInvalidation([key]);
+    } catch (error) {
+      throw new Error(
+        `Cache set failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get a value, or compute and store it on a miss.
+   * Concurrent calls for the same key share one loader run in this process, and a
+   * Redis lock (`<key>:lock`) lets only one process recompute while others wait for
+   * the value. With `staleWhileRevalidate`, an expired value is returned immediately
+   * while a single caller refreshes it in the background.
+   *
+   * @example
+   * const user = await cache.getOrSet(`user:${id}`, () => db.selectOne<User>('users', { id }), {
+   *   ttl: 300,
+   *   staleWhileRevalidate: 60,
+   * });
+   */
+  public async getOrSet<T>(
+    key: string,
+    loader: () => Promise<T> | T,
+    options: CacheGetOrSetOptions = {}
+  ): Promise<T> {
+    const cached = this.l1?.get(key);
+    if (cached !== undefined) {
+      this.l1Hits++;
+      return this.serializer.deserialize<T>(cached);
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = this.readThrough(key, loader, options).finally(() => {
+      this.inflight.delete(key);
+    });
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private async readThrough<T>(
+    key: string,
+    loader: () => Promise<T> | T,
+    options: CacheGetOrSetOptions
+  ): Promise<T> {
+    const [raw, pttl] = (await this.command('getOrSet', () =>
+      this.redis.redis('EVAL', GET_WITH_TTL_SCRIPT, 1, this.key(key))
+    )) as [string | null, number];
+
+    if (raw !== null) {
+      // The key lives for ttl + staleWhileRevalidate, its last seconds are the stale window
+      const staleMs = (options.staleWhileRevalidate ?? 0) * 1000;
+      this.l2Hits++;
+      if (staleMs > 0 && pttl >= 0 && pttl <= staleMs) {
+        this.refreshInBackground(key, loader, options);
       } else {
-        await this.redis.redis('SET', key, serialized);
+        this.remember(key, raw, pttl > 0 ? pttl - staleMs : undefined);
+      }
+      return this.serializer.deserialize<T>(raw);
+    }
+
+    this.misses++;
+
+    const lockKey = `${this.key(key)}:lock`;
+    const lockTimeout = options.lockTimeout ?? 5000;
+    const token = await this.acquireLock(lockKey, lockTimeout);
+
+    if (!token) {
+      const waited = await this.waitForValue(key, lockTimeout);
+      if (waited !== null) {
+        return this.serializer.deserialize<T>(waited);
+      }
+      // The lock holder is slow or failed: compute without the lock
+    }
+
+    try {
+      const value = await loader();
+      await this.store(key, value, options);
+      return value;
+    } finally {
+      if (token) {
+        await this.releaseLock(lockKey, token);
+      }
+    }
+  }
+
+  private refreshInBackground<T>(
+    key: string,
+    loader: () => Promise<T> | T,
+    options: CacheGetOrSetOptions
+  ): void {
+    if (this.refreshing.has(key)) {
+      return;
+    }
+    this.refreshing.add(key);
+
+    const lockKey = `${this.key(key)}:lock`;
+    void (async (): Promise<void> => {
+      let token: string | null = null;
+      try {
+        token = await this.acquireLock(lockKey, options.lockTimeout ?? 5000);
+        if (token) {
+          await this.store(key, await loader(), options);
+        }
+      } catch (err) {
+        this.logger?.warn({ message: `Cache refresh of '${key}' failed`, err });
+      } finally {
+        if (token) {
+          await this.releaseLock(lockKey, token);
+        }
+        this.refreshing.delete(key);
+      }
+    })();
+  }
+
+  private async store(key: string, value: unknown, options: CacheGetOrSetOptions): Promise<void> {
+    const serialized = this.serializer.serialize(value);
+    const expire = options.ttl ? options.ttl + (options.staleWhileRevalidate ?? 0) : 0;
+    await this.command('getOrSet', () => this.write(key, serialized, expire, options.tags));
+    this.remember(key, serialized, options.ttl ? options.ttl * 1000 : undefined);
+    await this.publishInvalidation([key]);
+  }
+
+  /**
+   * SET a serialized value and move it to the given tag sets, leaving the ones it
+   * was stored with before, in one script
+   */
+  private async write(
+    key: string,
+    serialized: string,
+    expireSeconds: number,
+    tags: string[] = []
+  ): Promise<void> {
+    if (!this.tagsEnabled) {
+      if (tags.length > 0) {
+        throw new Error(TAGS_NEED_HASH_TAG);
+      }
+      await (expireSeconds > 0
+        ? this.redis.redis('SET', this.key(key), serialized, 'EX', expireSeconds)
+        : this.redis.redis('SET', this.key(key), serialized));
+      return;
+    }
+
+    await this.redis.redis(
+      'EVAL',
+      WRITE_SCRIPT,
+      2 + tags.length,
+      this.key(key),
+      this.key(KEY_TAGS_PREFIX + key),
+      ...tags.map((tag) => this.key(TAG_KEY_PREFIX + tag)),
+      this.prefix,
+      serialized,
+      expireSeconds,
+      Date.now(),
+      ...tags
+    );
+  }
+
+  /**
+   * DEL keys, taking them out of their tag sets when tags are enabled
+   */
+  private async deleteKeys(keys: string[]): Promise<void> {
+    const redisKeys = keys.map((key) => this.key(key));
+    await (this.tagsEnabled
+      ? this.redis.redis('EVAL', DELETE_SCRIPT, redisKeys.length, ...redisKeys, this.prefix)
+      : this.redis.redis('DEL', ...redisKeys));
+  }
+
+  /**
+   * Redis key for a cache key, with the namespace prefix applied
+   */
+  private key(key: string): string {
+    return this.prefix + key;
+  }
+
+  /**
+   * Keep a serialized value in L1, never longer than its Redis TTL
+   */
+  private remember(key: string, serialized: string, ttlMs?: number): void {
+    this.l1?.set(key, serialized, ttlMs);
+  }
+
+  /**
+   * Drop keys (or everything) from L1 here and on every other replica
+   */
+  private async forget(keys?: string[]): Promise<void> {
+    if (!this.l1) {
+      return;
+    }
+    if (keys) {
+      keys.forEach((key) => {
+        this.l1?.delete(key);
+      });
+    } else {
+      this.l1.clear();
+    }
+    await this.publishInvalidation(keys);
+  }
+
+  private async publishInvalidation(keys?: string[]): Promise<void> {
+    if (!this.l1) {
+      return;
+    }
+    const message: L1Invalidation = {
+      origin: this.instanceId,
+      prefix: this.prefix,
+      ...(keys && { keys }),
+    };
+    try {
+      await this.redis.publish(L1_INVALIDATION_CHANNEL, message);
+    } catch (err) {
+      // Other replicas converge when their entries reach the L1 ttl
+      this.logger?.warn({ message: 'Failed to publish cache invalidation', err });
+    }
+  }
+
+  private listenForInvalidations(): void {
+    if (this.invalidations) {
+      return;
+    }
+    this.invalidations = this.redis
+      .subscribe<L1Invalidation>(L1_INVALIDATION_CHANNEL, (message) => {
+        if (message.origin === this.instanceId || message.prefix !== this.prefix) {
+          return;
+        }
+        if (message.keys) {
+          message.keys.forEach((key) => {
+            this.l1?.delete(key);
+          });
+        } else {
+          this.l1?.clear();
+        }
+      })
+      .then(
+        () => undefined,
+        (err: unknown) => {
+          this.invalidations = null;
+          this.logger?.warn({ message: 'Failed to subscribe to cache invalidations', err });
+        }
+      );
+  }
+
+  private async acquireLock(lockKey: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const result = await this.command('getOrSet', () =>
+      this.redis.redis('SET', lockKey, token, 'PX', ttlMs, 'NX')
+    );
+    return result === 'OK' ? token : null;
+  }
+
+  private async releaseLock(lockKey: string, token: string): Promise<void> {
+    try {
+      await this.redis.redis('EVAL', RELEASE_LOCK_SCRIPT, 1, lockKey, token);
+    } catch (err) {
+      // The lock expires on its own
+      this.logger?.debug({ message: `Failed to release cache lock '${lockKey}'`, err });
+    }
+  }
+
+  /**
+   * Poll for the value another process is computing, until `timeoutMs` elapses
+   */
+  private async waitForValue(key: string, timeoutMs: number): Promise<string | null> {
+    const deadline = Date.now() + timeoutMs;
+    for (let attempt = 1; Date.now() < deadline; attempt++) {
+      await sleep(Math.min(backoffDelay(attempt, LOCK_WAIT_BACKOFF), deadline - Date.now()));
+      const raw = (await this.command('getOrSet', () => this.redis.redis('GET', this.key(key)))) as
+        string | null;
+      if (raw !== null) {
+        return raw;
       }
+    }
+    return null;
+  }
+
+  private async command<T>(operation: string, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
     } catch (error) {
       throw new Error(
-        `Cache set failed: ${error instanceof Error ? error.message : String(error)}`
+        `Cache ${operation} failed: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
@@ -59,7 +531,8 @@ export class CacheService {
    */
   public async del(key: string): Promise<void> {
     try {
-      await this.redis.redis('DEL', key);
+      await this.deleteKeys([key]);
+      await this.forget([key]);
     } catch (error) {
       throw new Error(
         `Cache del failed: ${error instanceof Error ? error.message : String(error)}`
@@ -77,7 +550,8 @@ export class CacheService {
     if (keys.length === 0) return;
 
     try {
-      await this.redis.redis('DEL', ...keys);
+      await this.deleteKeys(keys);
+      await this.forget(keys);
     } catch (error) {
       throw new Error(
         `Cache delMany failed: ${error instanceof Error ? error.message : String(error)}`
@@ -85,6 +559,47 @@ export class CacheService {
     }
   }
 
+  /**
+   * Delete every key stored with any of the given tags, and the tag sets themselves.
+   * Each tag is invalidated atomically by a script, so a key tagged meanwhile is
+   * either deleted or tracked for the next invalidation.
+   * Returns the number of deleted keys
+   *
+   * @example
+   * await cache.set('user:123:orders', orders, { ttl: 600, tags: ['user:123'] });
+   * await cache.invalidateTags(['user:123']);
+   */
+  public async invalidateTags(tags: string[]): Promise<number> {
+    if (tags.length === 0) {
+      return 0;
+    }
+
+    try {
+      if (!this.tagsEnabled) {
+        throw new Error(TAGS_NEED_HASH_TAG);
+      }
+      let deleted = 0;
+      const keys = new Set<string>();
+      for (const tag of tags) {
+        const [count, members] = (await this.redis.redis(
+          'EVAL',
+          INVALIDATE_TAG_SCRIPT,
+          1,
+          this.key(TAG_KEY_PREFIX + tag),
+          this.prefix
+        )) as [number, string[]];
+        deleted += count;
+        members.forEach((member) => keys.add(member.slice(this.prefix.length)));
+      }
+      await this.forget(Array.from(keys));
+      return deleted;
+    } catch (error) {
+      throw new Error(
+        `Cache invalidateTags failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   /**
    * Check if a key exists in cache
    *
@@ -93,7 +608,7 @@ export class CacheService {
    */
   public async exists(key: string): Promise<boolean> {
     try {
-      const result = await this.redis.redis('EXISTS', key);
+      const result = await this.redis.redis('EXISTS', this.key(key));
       return result === 1;
     } catch (error) {
       throw new Error(
@@ -113,7 +628,7 @@ export class CacheService {
    */
   public async ttl(key: string): Promise<number> {
     try {
-      const result = await this.redis.redis('TTL', key);
+      const result = await this.redis.redis('TTL', this.key(key));
       return result as number;
     } catch (error) {
       throw new Error(
@@ -130,7 +645,8 @@ export class CacheService {
    */
   public async expire(key: string, seconds: number): Promise<boolean> {
     try {
-      const result = await this.redis.redis('EXPIRE', key, seconds);
+      const result = await this.redis.redis('EXPIRE', this.key(key), seconds);
+      await this.forget([key]);
       return result === 1;
     } catch (error) {
       throw new Error(
@@ -148,7 +664,8 @@ export class CacheService {
    */
   public async incr(key: string): Promise<number> {
     try {
-      const result = await this.redis.redis('INCR', key);
+      const result = await this.redis.redis('INCR', this.key(key));
+      await this.forget([key]);
       return result as number;
     } catch (error) {
       throw new Error(
@@ -165,7 +682,8 @@ export class CacheService {
    */
   public async incrBy(key: string, increment: number): Promise<number> {
     try {
-      const result = await this.redis.redis('INCRBY', key, increment);
+      const result = await this.redis.redis('INCRBY', this.key(key), increment);
+      await this.forget([key]);
       return result as number;
     } catch (error) {
       throw new Error(
@@ -182,7 +700,8 @@ export class CacheService {
    */
   public async decr(key: string): Promise<number> {
     try {
-      const result = await this.redis.redis('DECR', key);
+      const result = await this.redis.redis('DECR', this.key(key));
+      await this.forget([key]);
       return result as number;
     } catch (error) {
       throw new Error(
@@ -201,9 +720,38 @@ export class CacheService {
   public async mget<T = unknown>(keys: string[]): Promise<(T | null)[]> {
     if (keys.length === 0) return [];
 
+    const raw = keys.map((key) => this.l1?.get(key));
+    const missing = keys.filter((_, index) => raw[index] === undefined);
+    this.l1Hits += keys.length - missing.length;
+
     try {
-      const values = (await this.redis.redis('MGET', ...keys)) as (string | null)[];
-      return values.map((v) => (v ? (JSON.parse(v) as T) : null));
+      if (missing.length > 0) {
+        const values = (await this.redis.redis('MGET', ...missing.map((key) => this.key(key)))) as (
+          string | null
+        )[];
+        const pttls = this.l1
+          ? ((await Promise.all(
+              missing.map((key, index) =>
+                values[index] ? this.redis.redis('PTTL', this.key(key)) : Promise.resolve(-2)
+              )
+            )) as number[])
+          : [];
+        let next = 0;
+        raw.forEach((value, index) => {
+          if (value === undefined) {
+            const position = next++;
+            const fetched = values[position] ?? null;
+            if (fetched) {
+              this.l2Hits++;
+              this.remember(keys[index] ?? '', fetched, l1Lifetime(pttls[position] ?? -1));
+            } else {
+              this.misses++;
+            }
+            raw[index] = fetched ?? undefined;
+          }
+        });
+      }
+      return raw.map((v) => (v ? this.serializer.deserialize<T>(v) : null));
     } catch (error) {
       throw new Error(
         `Cache mget failed: ${error instanceof Error ? error.message : String(error)}`
@@ -226,10 +774,17 @@ export class CacheService {
 
     try {
       const args: (string | number | Buffer)[] = [];
-      for (const [key, value] of entries) {
-        args.push(key, JSON.stringify(value));
+      const serialized = entries.map(
+        ([key, value]) => [key, this.serializer.serialize(value)] as const
+      );
+      for (const [key, value] of serialized) {
+        args.push(this.key(key), value);
       }
       await this.redis.redis('MSET', ...args);
+      for (const [key, value] of serialized) {
+        this.remember(key, value);
+      }
+      await this.publishInvalidation(entries.map(([key]) => key));
     } catch (error) {
       throw new Error(
         `Cache mset failed: ${error instanceof Error ? error.message : String(error)}`
@@ -260,7 +815,7 @@ export class CacheService {
           'SCAN',
           cursor,
           'MATCH',
-          pattern,
+          escapeGlob(this.prefix) + pattern,
           'COUNT',
           '500'
         )) as [string, string[]];
@@ -274,6 +829,7 @@ export class CacheService {
         }
       } while (cursor !== '0');
 
+      await this.forget();
       return deleted;
     } catch (error) {
       throw new Error(
@@ -301,6 +857,14 @@ export class CacheService {
         }
       }
 
+      const lookups = this.l1Hits + this.l2Hits + this.misses;
+      stats['katax_l1_hits'] = String(this.l1Hits);
+      stats['katax_l1_hit_ratio'] = hitRatio(this.l1Hits, lookups);
+      stats['katax_l2_hits'] = String(this.l2Hits);
+      stats['katax_l2_hit_ratio'] = hitRatio(this.l2Hits, lookups - this.l1Hits);
+      stats['katax_misses'] = String(this.misses);
+      stats['katax_l1_entries'] = String(this.l1?.size ?? 0);
+
       return stats;
     } catch (error) {
       throw new Error(
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RedisCronHistoryStore, SqlCronHistoryStore } from './cron-history.service.js';
+import type { CronRun, IRedisDatabase, ISqlDatabase } from '../types.js';
+
+const run: CronRun = {
+  job: 'cleanup',
+  startedAt: new Date(1_000),
+  finishedAt: new Date(1_250),
+  durationMs: 250,
+  status: 'failure',
+  attempts: 2,
+  error: 'boom',
+  errorStack: 'Error: boom\n    at task',
+  node: 'web-1:42',
+};
+
+describe('RedisCronHistoryStore', () => {
+  it('appends runs to a trimmed stream per job and reads them newest first', async () => {
+    const streams = new Map<string, [string, string[]][]>();
+    const redis = vi.fn(async (command: string, key: string, ...args: (string | number)[]) => {
+      const entries = streams.get(key) ?? [];
+      if (command === 'XADD') {
+        const fields = args.slice(args.indexOf('*') + 1).map(String);
+        entries.push([`${String(entries.length + 1)}-0`, fields]);
+        streams.set(key, entries);
+        return `${String(entries.length)}-0`;
+      }
+      return [...entries].reverse().slice(0, Number(args[3]));
+    });
+    const store = new RedisCronHistoryStore({ redis } as unknown as IRedisDatabase, {
+      streamKey: 'api:cron:history',
+      maxLen: 100,
+    });
+
+    await store.record(run);
+    await store.record({ ...run, status: 'success', error: null, errorStack: null });
+
+    expect(redis).toHaveBeenCalledWith(
+      'XADD',
+      'api:cron:history:cleanup',
+      'MAXLEN',
+      '~',
+      100,
+      '*',
+      ...['job', 'cleanup', 'node', 'web-1:42', 'status', 'failure', 'attempts', '2'],
+      ...['startedAt', '1000', 'finishedAt', '1250', 'durationMs', '250'],
+      ...['error', 'boom', 'errorStack', 'Error: boom\n    at task']
+    );
+
+    const history = await store.list('cleanup', 10);
+    expect(redis).toHaveBeenLastCalledWith(
+      'XREVRANGE',
+      'api:cron:history:cleanup',
+      '+',
+      '-',
+      'COUNT',
+      10
+    );
+    expect(history).toEqual([{ ...run, status: 'success', error: null, errorStack: null }, run]);
+  });
+});
+
+describe('SqlCronHistoryStore', () => {
+  it('creates the table once and uses dialect placeholders', async () => {
+    const rows: Record<string, unknown>[] = [];
+    const query = vi.fn(async (sql: string, params: unknown[] = []) => {
+      if (sql.startsWith('INSERT')) {
+        const [, job, node, status, attempts, startedAt, finishedAt, durationMs, error, stack] =
+          params;
+        rows.push({
+          job,
+          node,
+          status,
+          attempts,
+          started_at: String(startedAt),
+          finished_at: String(finishedAt),
+          duration_ms: durationMs,
+          error,
+          error_stack: stack,
+        });
+      }
+      return sql.startsWith('SELECT') ? rows : [];
+    });
+    const db = { config: { type: 'postgresql' }, query } as unknown as ISqlDatabase;
+    const store = new SqlCronHistoryStore(db, 'cron_runs');
+
+    await store.record(run);
+    await expect(store.list('cleanup', 5)).resolves.toEqual([run]);
+
+    const statements = query.mock.calls.map(([sql]) => sql);
+    expect(statements.filter((sql) => sql.startsWith('CREATE TABLE'))).toHaveLength(1);
+    expect(statements[1]).toContain('VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)');
+    expect(query).toHaveBeenLastCalledWith(
+      expect.stringMatching(/FROM cron_runs WHERE job = \$1 ORDER BY started_at DESC LIMIT 5$/),
+      ['cleanup']
+    );
+  });
+
+  it('rejects unsafe table names and wraps query errors', async () => {
+    const db = {
+      config: { type: 'mysql' },
+      query: vi.fn().mockRejectedValue(new Error('access denied')),
+    } as unknown as ISqlDatabase;
+
+    expect(() => new SqlCronHistoryStore(db, 'runs; DROP TABLE users')).toThrow(
+      'Invalid cron history table name "runs; DROP TABLE users"'
+    );
+    await expect(new SqlCronHistoryStore(db).record(run)).rejects.toThrow(
+      'Cron history record failed: access denied'
+    );
+  });
+});
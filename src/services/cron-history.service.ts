@@ -0,0 +1,225 @@
+import { randomUUID } from 'crypto';
+import type { CronHistoryStore, CronRun, IRedisDatabase, ISqlDatabase } from '../types.js';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+type RedisStreamEntry = [id: string, fields: string[]];
+
+interface CronRunRow {
+  job: string;
+  node: string;
+  status: string;
+  attempts: number | string;
+  started_at: number | string;
+  finished_at: number | string;
+  duration_ms: number | string;
+  error: string | null;
+  error_stack: string | null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Stream fields cannot hold null; record() writes an empty string instead
+ */
+function nullIfEmpty(value: string | undefined): string | null {
+  return value === undefined || value === '' ? null : value;
+}
+
+/**
+ * Cron job history in Redis, one stream per job (`<streamKey>:<job>`) trimmed to
+ * roughly `maxLen` entries
+ *
+ * @example
+ * const store = new RedisCronHistoryStore(redis, { streamKey: 'api:cron:history' });
+ */
+export class RedisCronHistoryStore implements CronHistoryStore {
+  private readonly streamKey: string;
+  private readonly maxLen: number;
+
+  constructor(
+    private readonly redis: IRedisDatabase,
+    options: { streamKey?: string; maxLen?: number } = {}
+  ) {
+    this.streamKey = options.streamKey ?? 'katax:cron:history';
+    this.maxLen = options.maxLen ?? 1000;
+  }
+
+  public async record(run: CronRun): Promise<void> {
+    try {
+      await this.redis.redis(
+        'XADD',
+        `${this.streamKey}:${run.job}`,
+        'MAXLEN',
+        '~',
+        this.maxLen,
+        '*',
+        'job',
+        run.job,
+        'node',
+        run.node,
+        'status',
+        run.status,
+        'attempts',
+        String(run.attempts),
+        'startedAt',
+        String(run.startedAt.getTime()),
+        'finishedAt',
+        String(run.finishedAt.getTime()),
+        'durationMs',
+        String(run.durationMs),
+        'error',
+        run.error ?? '',
+        'errorStack',
+        run.errorStack ?? ''
+      );
+    } catch (error) {
+      throw new Error(`Cron history record failed: ${errorMessage(error)}`);
+    }
+  }
+
+  public async list(job: string, limit: number): Promise<CronRun[]> {
+    let entries: RedisStreamEntry[] | null;
+    try {
+      entries = (await this.redis.redis(
+        'XREVRANGE',
+        `${this.streamKey}:${job}`,
+        '+',
+        '-',
+        'COUNT',
+        limit
+      )) as RedisStreamEntry[] | null;
+    } catch (error) {
+      throw new Error(`Cron history list failed: ${errorMessage(error)}`);
+    }
+
+    return (entries ?? []).map(([, fields]) => {
+      const entry = new Map<string, string>();
+      for (let i = 0; i + 1 < fields.length; i += 2) {
+        entry.set(fields[i] ?? '', fields[i + 1] ?? '');
+      }
+      return {
+        job: entry.get('job') ?? job,
+        startedAt: new Date(Number(entry.get('startedAt'))),
+        finishedAt: new Date(Number(entry.get('finishedAt'))),
+        durationMs: Number(entry.get('durationMs')),
+        status: entry.get('status') === 'success' ? 'success' : 'failure',
+        attempts: Number(entry.get('attempts')),
+        error: nullIfEmpty(entry.get('error')),
+        errorStack: nullIfEmpty(entry.get('errorStack')),
+        node: entry.get('node') ?? '',
+      };
+    });
+  }
+}
+
+/**
+ * Cron job history in a PostgreSQL, MySQL or SQLite table, created on first use.
+ * Times are stored as epoch milliseconds so the schema is the same on every dialect.
+ *
+ * @example
+ * const store = new SqlCronHistoryStore(db.asSql(), 'cron_runs');
+ */
+export class SqlCronHistoryStore implements CronHistoryStore {
+  private ready: Promise<void> | null = null;
+
+  constructor(
+    private readonly db: Pick<ISqlDatabase, 'config' | 'query'>,
+    private readonly table = 'katax_cron_runs'
+  ) {
+    if (!IDENTIFIER_PATTERN.test(table)) {
+      throw new Error(`Invalid cron history table name "${table}"`);
+    }
+  }
+
+  public async record(run: CronRun): Promise<void> {
+    const values = [
+      randomUUID(),
+      run.job,
+      run.node,
+      run.status,
+      run.attempts,
+      run.startedAt.getTime(),
+      run.finishedAt.getTime(),
+      run.durationMs,
+      run.error,
+      run.errorStack,
+    ];
+
+    try {
+      await this.ensureTable();
+      await this.db.query(
+        `INSERT INTO ${this.table} ` +
+          '(id, job, node, status, attempts, started_at, finished_at, duration_ms, error, error_stack) ' +
+          `VALUES (${values.map((_, i) => this.placeholder(i + 1)).join(', ')})`,
+        values
+      );
+    } catch (error) {
+      throw new Error(`Cron history record failed: ${errorMessage(error)}`);
+    }
+  }
+
+  public async list(job: string, limit: number): Promise<CronRun[]> {
+    let rows: CronRunRow[];
+    try {
+      await this.ensureTable();
+      // LIMIT is inlined: MySQL prepared statements reject a bound LIMIT on some versions
+      rows = await this.db.query<CronRunRow[]>(
+        `SELECT job, node, status, attempts, started_at, finished_at, duration_ms, error, error_stack ` +
+          `FROM ${this.table} WHERE job = ${this.placeholder(1)} ` +
+          `ORDER BY started_at DESC LIMIT ${String(Math.max(0, Math.floor(limit)))}`,
+        [job]
+      );
+    } catch (error) {
+      throw new Error(`Cron history list failed: ${errorMessage(error)}`);
+    }
+
+    return rows.map((row) => ({
+      job: row.job,
+      startedAt: new Date(Number(row.started_at)),
+      finishedAt: new Date(Number(row.finished_at)),
+      durationMs: Number(row.duration_ms),
+      status: row.status === 'success' ? 'success' : 'failure',
+      attempts: Number(row.attempts),
+      error: row.error,
+      errorStack: row.error_stack,
+      node: row.node,
+    }));
+  }
+
+  private placeholder(index: number): string {
+    return this.db.config.type === 'postgresql' ? `$${String(index)}` : '?';
+  }
+
+  /**
+   * The primary key starts with (job, started_at), which serves list() without
+   * a separate index
+   */
+  private async ensureTable(): Promise<void> {
+    this.ready ??= this.db
+      .query(
+        `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+          'job VARCHAR(255) NOT NULL, ' +
+          'started_at BIGINT NOT NULL, ' +
+          'id VARCHAR(36) NOT NULL, ' +
+          'node VARCHAR(255) NOT NULL, ' +
+          'status VARCHAR(16) NOT NULL, ' +
+          'attempts INTEGER NOT NULL, ' +
+          'finished_at BIGINT NOT NULL, ' +
+          'duration_ms INTEGER NOT NULL, ' +
+          'error TEXT, ' +
+          'error_stack TEXT, ' +
+          'PRIMARY KEY (job, started_at, id))'
+      )
+      .then(
+        () => undefined,
+        (error: unknown) => {
+          this.ready = null;
+          throw error;
+        }
+      );
+    await this.ready;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCronLastRunStore, RedisCronLastRunStore } from './cron-last-run.service.js';
+import type { IRedisDatabase } from '../types.js';
+
+describe('FileCronLastRunStore', () => {
+  let dir = '';
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists last runs across instances', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'katax-cron-'));
+    const path = join(dir, 'state', 'last-run.json');
+    const store = new FileCronLastRunStore(path);
+
+    await expect(store.get('nightly')).resolves.toBeNull();
+    await Promise.all([
+      store.set('nightly', new Date('2026-05-01T02:00:00Z')),
+      store.set('hourly', new Date('2026-05-01T09:00:00Z')),
+    ]);
+
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({
+      nightly: '2026-05-01T02:00:00.000Z',
+      hourly: '2026-05-01T09:00:00.000Z',
+    });
+    await expect(new FileCronLastRunStore(path).get('nightly')).resolves.toEqual(
+      new Date('2026-05-01T02:00:00Z')
+    );
+  });
+});
+
+describe('RedisCronLastRunStore', () => {
+  it('keeps every job in one hash', async () => {
+    const hash = new Map<string, string>();
+    const redis = vi.fn(async (command: string, _key: string, field: string, value?: string) => {
+      if (command === 'HSET' && value !== undefined) {
+        hash.set(field, value);
+        return 1;
+      }
+      return hash.get(field) ?? null;
+    });
+    const store = new RedisCronLastRunStore({ redis } as unknown as IRedisDatabase, 'api:cron');
+
+    await expect(store.get('nightly')).resolves.toBeNull();
+    await store.set('nightly', new Date(1_000));
+
+    expect(redis).toHaveBeenCalledWith('HSET', 'api:cron', 'nightly', '1000');
+    await expect(store.get('nightly')).resolves.toEqual(new Date(1_000));
+  });
+});
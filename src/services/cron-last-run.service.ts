@@ -0,0 +1,112 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import type { CronLastRunStore, IRedisDatabase } from '../types.js';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Last-run times kept in process memory. Forgotten on restart, so it only
+ * catches up jobs that were removed and added again in the same process.
+ */
+export class MemoryCronLastRunStore implements CronLastRunStore {
+  private readonly runs = new Map<string, Date>();
+
+  public get(job: string): Promise<Date | null> {
+    return Promise.resolve(this.runs.get(job) ?? null);
+  }
+
+  public set(job: string, at: Date): Promise<void> {
+    this.runs.set(job, at);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Last-run times in a JSON file (`{ "<job>": "<ISO date>" }`), for single-instance
+ * deployments with a persistent disk. Writes go to a temporary file that is then
+ * renamed, so a crash never leaves a truncated file.
+ *
+ * @example
+ * const store = new FileCronLastRunStore('./data/cron-last-run.json');
+ */
+export class FileCronLastRunStore implements CronLastRunStore {
+  private readonly path: string;
+  private runs: Promise<Record<string, string>> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = resolve(path);
+  }
+
+  public async get(job: string): Promise<Date | null> {
+    const value = (await this.load())[job];
+    return value === undefined ? null : new Date(value);
+  }
+
+  public async set(job: string, at: Date): Promise<void> {
+    const runs = await this.load();
+    runs[job] = at.toISOString();
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    const write = this.writing.then(async () => {
+      const tmp = `${this.path}.tmp`;
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(tmp, JSON.stringify(runs, null, 2));
+      await rename(tmp, this.path);
+    });
+    this.writing = write.catch(() => undefined);
+
+    try {
+      await write;
+    } catch (error) {
+      throw new Error(`Cron last-run write failed: ${errorMessage(error)}`);
+    }
+  }
+
+  private async load(): Promise<Record<string, string>> {
+    this.runs ??= readFile(this.path, 'utf8').then(
+      (content) => JSON.parse(content) as Record<string, string>,
+      (error: unknown) => {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return {};
+        }
+        this.runs = null;
+        throw new Error(`Cron last-run read failed: ${errorMessage(error)}`);
+      }
+    );
+    return this.runs;
+  }
+}
+
+/**
+ * Last-run times in one Redis hash (job name → epoch ms), shared by every replica
+ *
+ * @example
+ * const store = new RedisCronLastRunStore(redis, 'api:cron:last-run');
+ */
+export class RedisCronLastRunStore implements CronLastRunStore {
+  constructor(
+    private readonly redis: IRedisDatabase,
+    private readonly key = 'katax:cron:last-run'
+  ) {}
+
+  public async get(job: string): Promise<Date | null> {
+    let value: unknown;
+    try {
+      value = await this.redis.redis('HGET', this.key, job);
+    } catch (error) {
+      throw new Error(`Cron last-run read failed: ${errorMessage(error)}`);
+    }
+    return value === null || value === undefined ? null : new Date(Number(value));
+  }
+
+  public async set(job: string, at: Date): Promise<void> {
+    try {
+      await this.redis.redis('HSET', this.key, job, String(at.getTime()));
+    } catch (error) {
+      throw new Error(`Cron last-run write failed: ${errorMessage(error)}`);
+    }
+  }
+}
@@ -0,0 +1,554 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CronService } from './cron.service.js';
+import type {
+  CronLastRunStore,
+  CronRun,
+  ILoggerService,
+  IWebSocketService,
+  LockHandle,
+} from '../types.js';
+
+const scheduled = vi.hoisted(() => [] as Array<{ expression: string; fire: () => Promise<void> }>);
+
+vi.mock('node-cron', () => ({
+  default: {
+    validate: (expression: string) => expression.split(' ').length >= 5,
+    schedule: (expression: string, fire: () => Promise<void>) => {
+      scheduled.push({ expression, fire });
+      return { start: vi.fn(), stop: vi.fn() };
+    },
+  },
+}));
+
+async function fireAll(): Promise<void> {
+  await Promise.all(scheduled.map((job) => job.fire()));
+}
+
+function sharedLocks(): (redisName: string) => {
+  acquire: (resource: string) => Promise<LockHandle | null>;
+} {
+  const held = new Set<string>();
+  const acquire = vi.fn(async (resource: string) => {
+    if (held.has(resource)) return null;
+    held.add(resource);
+    return { resource, token: 't', fence: held.size, expiresAt: 0 } as unknown as LockHandle;
+  });
+  return () => ({ acquire });
+}
+
+describe('CronService distributed jobs', () => {
+  beforeEach(() => {
+    scheduled.length = 0;
+  });
+
+  it('runs each tick on one instance only', async () => {
+    const locks = sharedLocks();
+    const task = vi.fn();
+    const job = { name: 'cleanup', schedule: '0 2 * * *', task, distributed: { redis: 'redis' } };
+
+    const replicaA = new CronService({ locks });
+    const replicaB = new CronService({ locks });
+    replicaA.addJob(job);
+    replicaB.addJob(job);
+    await replicaA.init();
+    await replicaB.init();
+
+    await fireAll();
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(locks('redis').acquire).toHaveBeenCalledWith(
+      expect.stringMatching(/^cron:cleanup:\d+000$/),
+      { ttlMs: 60_000 }
+    );
+  });
+
+  it('claims the scheduled tick when replicas fire in different seconds', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const locks = sharedLocks();
+    const task = vi.fn();
+    const job = { name: 'sync', schedule: '*/5 * * * *', task, distributed: { redis: 'redis' } };
+
+    const replicaA = new CronService({ locks });
+    const replicaB = new CronService({ locks });
+    replicaA.addJob(job);
+    replicaB.addJob(job);
+    await replicaA.init();
+    await replicaB.init();
+
+    vi.setSystemTime(new Date('2026-07-01T12:05:00.900Z'));
+    await scheduled[0]?.fire();
+    vi.setSystemTime(new Date('2026-07-01T12:05:02.100Z'));
+    await scheduled[1]?.fire();
+    vi.useRealTimers();
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(locks('redis').acquire).toHaveBeenLastCalledWith(
+      `cron:sync:${String(Date.parse('2026-07-01T12:05:00Z'))}`,
+      { ttlMs: 60_000 }
+    );
+  });
+
+  it('skips the tick when the lock cannot be taken', async () => {
+    const service = new CronService({
+      locks: () => ({
+        acquire: async () => {
+          throw new Error('connection refused');
+        },
+      }),
+    });
+    const task = vi.fn();
+    service.addJob({
+      name: 'report',
+      schedule: '* * * * *',
+      task,
+      distributed: { redis: 'redis', lockTtlMs: 5_000 },
+    });
+    await service.init();
+
+    await fireAll();
+
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('rejects distributed jobs without a lock provider', () => {
+    expect(() =>
+      new CronService().addJob({
+        name: 'x',
+        schedule: '* * * * *',
+        task: () => undefined,
+        distributed: { redis: 'redis' },
+      })
+    ).toThrow('Cron job "x" is distributed but the cron service has no Redis lock provider');
+  });
+});
+
+describe('CronService execution', () => {
+  beforeEach(() => {
+    scheduled.length = 0;
+  });
+
+  it('skips overlapping ticks with preventOverlap', async () => {
+    let finish: () => void = () => undefined;
+    const task = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        })
+    );
+    const service = new CronService();
+    service.addJob({ name: 'sync', schedule: '* * * * *', task, preventOverlap: true });
+    await service.init();
+
+    const first = fireAll();
+    await fireAll();
+    expect(service.getJobs()[0]?.executing).toBe(true);
+    finish();
+    await first;
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(service.getJobs()[0]).toMatchObject({ executing: false, runCount: 1, failureCount: 0 });
+  });
+
+  it('stays executing until every concurrent run finishes without preventOverlap', async () => {
+    const finishers: (() => void)[] = [];
+    const task = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finishers.push(resolve);
+        })
+    );
+    const service = new CronService();
+    service.addJob({ name: 'sync', schedule: '* * * * *', task });
+    await service.init();
+
+    const first = fireAll();
+    const second = fireAll();
+    await vi.waitFor(() => expect(task).toHaveBeenCalledTimes(2));
+    finishers[0]?.();
+    await first;
+    expect(service.getJobs()[0]?.executing).toBe(true);
+    finishers[1]?.();
+    await second;
+
+    expect(service.getJobs()[0]).toMatchObject({ executing: false, runCount: 2 });
+  });
+
+  it('logs through the injected logger with the job name bound', async () => {
+    const jobLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    const child = vi.fn(() => jobLogger);
+    const logger = { child: vi.fn(() => ({ child, info: vi.fn() })) };
+    const error = new Error('boom');
+    const service = new CronService({ logger: logger as unknown as ILoggerService });
+    service.addJob({ name: 'sync', schedule: '* * * * *', task: vi.fn().mockRejectedValue(error) });
+    await service.init();
+    await fireAll();
+
+    expect(logger.child).toHaveBeenCalledWith({ name: 'katax:cron' });
+    expect(child).toHaveBeenCalledWith({ job: 'sync' });
+    expect(jobLogger.info).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Started job' })
+    );
+    expect(jobLogger.error).toHaveBeenCalledWith({ message: 'Error executing job', err: error });
+  });
+
+  it('aborts runs exceeding timeoutMs', async () => {
+    let signal: AbortSignal | undefined;
+    const service = new CronService();
+    service.addJob({
+      name: 'slow',
+      schedule: '* * * * *',
+      timeoutMs: 20,
+      task: (received) => {
+        signal = received;
+        return new Promise(() => undefined);
+      },
+    });
+    await service.init();
+
+    await fireAll();
+
+    expect(signal?.aborted).toBe(true);
+    expect(service.getJobs()[0]).toMatchObject({
+      runCount: 1,
+      failureCount: 1,
+      lastError: 'Cron job "slow" timed out after 20ms',
+    });
+  });
+
+  it('retries failed runs and records statistics', async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('flaky'))
+      .mockRejectedValueOnce(new Error('flaky'))
+      .mockResolvedValue(undefined);
+    const service = new CronService();
+    service.addJob({
+      name: 'import',
+      schedule: '* * * * *',
+      task,
+      retry: { attempts: 2, backoffMs: 1 },
+    });
+    await service.init();
+
+    await fireAll();
+
+    expect(task).toHaveBeenCalledTimes(3);
+    const [job] = service.getJobs();
+    expect(job).toMatchObject({ runCount: 1, failureCount: 0, lastError: null });
+    expect(job?.lastRunAt).toBeInstanceOf(Date);
+    expect(job?.lastDurationMs).toBeGreaterThanOrEqual(0);
+
+    task.mockRejectedValue(new Error('down'));
+    await fireAll();
+    expect(service.getJobs()[0]).toMatchObject({
+      runCount: 2,
+      failureCount: 1,
+      lastError: 'down',
+    });
+  });
+});
+
+describe('CronService history', () => {
+  beforeEach(() => {
+    scheduled.length = 0;
+  });
+
+  it('broadcasts and records every run', async () => {
+    const runs: CronRun[] = [];
+    const store = {
+      record: vi.fn(async (run: CronRun) => {
+        runs.unshift(run);
+      }),
+      list: vi.fn(async (_job: string, limit: number) => runs.slice(0, limit)),
+    };
+    const socket = { emit: vi.fn() } as unknown as IWebSocketService;
+    const service = new CronService();
+    service.setHistoryStore(store);
+    service.setSocketService(socket);
+    service.addJob({
+      name: 'report',
+      schedule: '* * * * *',
+      task: vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined),
+    });
+    await service.init();
+
+    await fireAll();
+    await fireAll();
+
+    expect(socket.emit).toHaveBeenCalledTimes(2);
+    expect(socket.emit).toHaveBeenCalledWith(
+      'cron',
+      expect.objectContaining({
+        job: 'report',
+        status: 'failure',
+        attempts: 1,
+        error: 'boom',
+        errorStack: expect.stringContaining('Error: boom'),
+        node: expect.stringMatching(/:\d+$/),
+      })
+    );
+    const history = await service.getHistory('report', { limit: 1 });
+    expect(store.list).toHaveBeenCalledWith('report', 1);
+    expect(history).toEqual([expect.objectContaining({ status: 'success', error: null })]);
+  });
+
+  it('keeps running when the history store fails', async () => {
+    const task = vi.fn();
+    const service = new CronService();
+    service.setHistoryStore({
+      record: async () => {
+        throw new Error('redis down');
+      },
+      list: async () => [],
+    });
+    service.addJob({ name: 'ping', schedule: '* * * * *', task });
+    await service.init();
+
+    await fireAll();
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(service.getJobs()[0]).toMatchObject({ runCount: 1, failureCount: 0 });
+    await expect(new CronService().getHistory('ping')).rejects.toThrow(
+      'Cron history is not configured'
+    );
+  });
+});
+
+describe('CronService catch-up', () => {
+  beforeEach(() => {
+    scheduled.length = 0;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-05-04T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function storeWith(lastRun: string | null): CronLastRunStore & { runs: Map<string, Date> } {
+    const runs = new Map<string, Date>();
+    if (lastRun) runs.set('nightly', new Date(lastRun));
+    return {
+      runs,
+      get: async (job) => runs.get(job) ?? null,
+      set: async (job, at) => {
+        runs.set(job, at);
+      },
+    };
+  }
+
+  it('runs missed ticks once or all of them, oldest first', async () => {
+    const lastRunStore = storeWith('2026-05-01T02:00:00Z');
+    const once = vi.fn();
+    const service = new CronService({ lastRunStore });
+    service.addJob({ name: 'nightly', schedule: '0 2 * * *', catchUp: 'once', task: once });
+    await service.init();
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(lastRunStore.runs.get('nightly')).toEqual(new Date('2026-05-04T02:00:00Z'));
+
+    lastRunStore.runs.set('nightly', new Date('2026-05-01T02:00:00Z'));
+    const ticks: Date[] = [];
+    const all = new CronService({
+      lastRunStore: {
+        get: lastRunStore.get,
+        set: async (job, at) => {
+          ticks.push(at);
+          await lastRunStore.set(job, at);
+        },
+      },
+    });
+    all.addJob({
+      name: 'nightly',
+      schedule: '0 2 * * *',
+      catchUp: 'all',
+      maxLatenessMs: 7 * 24 * 60 * 60 * 1000,
+      task: vi.fn(),
+    });
+    await all.init();
+
+    expect(ticks.map((tick) => tick.toISOString())).toEqual([
+      '2026-05-02T02:00:00.000Z',
+      '2026-05-03T02:00:00.000Z',
+      '2026-05-04T02:00:00.000Z',
+    ]);
+    expect(all.getJobs()[0]?.runCount).toBe(3);
+  });
+
+  it('ignores ticks older than maxLatenessMs and starts from now without a last run', async () => {
+    const lastRunStore = storeWith('2026-05-01T02:00:00Z');
+    const task = vi.fn();
+    const service = new CronService({ lastRunStore });
+    service.addJob({
+      name: 'nightly',
+      schedule: '0 2 * * *',
+      catchUp: 'all',
+      maxLatenessMs: 60 * 60 * 1000,
+      task,
+    });
+    service.addJob({ name: 'fresh', schedule: '0 2 * * *', catchUp: 'once', task });
+    await service.init();
+
+    expect(task).not.toHaveBeenCalled();
+    expect(lastRunStore.runs.get('fresh')).toEqual(new Date('2026-05-04T10:00:00Z'));
+
+    vi.setSystemTime(new Date('2026-05-05T02:00:00.400Z'));
+    await fireAll();
+    expect(lastRunStore.runs.get('nightly')).toEqual(new Date('2026-05-05T02:00:00Z'));
+  });
+});
+
+describe('CronService control', () => {
+  beforeEach(() => {
+    scheduled.length = 0;
+  });
+
+  it('triggers runs on demand and pauses ticks without unscheduling', async () => {
+    const task = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+    const service = new CronService();
+    service.addJob({ name: 'sync', schedule: '*/5 * * * *', task });
+    await service.init();
+
+    await expect(service.triggerJob('sync')).resolves.toMatchObject({
+      job: 'sync',
+      status: 'failure',
+      error: 'boom',
+    });
+    await expect(service.triggerJob('missing')).rejects.toThrow('Cron job "missing" not found');
+
+    service.pauseJob('sync');
+    await fireAll();
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(service.getJobs()[0]).toMatchObject({ running: true, paused: true, nextRunAt: null });
+
+    service.resumeJob('sync');
+    await fireAll();
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports next and previous ticks in the job time zone', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-07-01T12:00:00Z'));
+    const service = new CronService();
+    service.addJob({
+      name: 'nightly',
+      schedule: '0 2 * * *',
+      timezone: 'America/New_York',
+      task: vi.fn(),
+    });
+    await service.init();
+
+    expect(service.getJobs()[0]).toMatchObject({
+      nextRunAt: new Date('2026-07-02T06:00:00Z'),
+      previousRunAt: new Date('2026-07-01T06:00:00Z'),
+    });
+    service.stopJob('nightly');
+    expect(service.getJobs()[0]?.nextRunAt).toBeNull();
+    vi.useRealTimers();
+  });
+
+  it('runs authorized commands from WebSocket clients', async () => {
+    const handlers = new Map<string, (data: unknown) => void>();
+    const replies: unknown[] = [];
+    const client = {
+      on: (event: string, handler: (data: unknown) => void) => handlers.set(event, handler),
+      emit: (_event: string, data: unknown) => replies.push(data),
+      join: vi.fn(),
+      leave: vi.fn(),
+    };
+    const socket = {
+      onConnection: (handler: (connection: typeof client) => void) => handler(client),
+    } as unknown as IWebSocketService;
+    const task = vi.fn();
+    const service = new CronService();
+    service.addJob({ name: 'sync', schedule: '* * * * *', task });
+    service.listenForCommands(socket, { authorize: (command) => command.token === 'secret' });
+
+    const send = async (data: unknown): Promise<unknown> => {
+      handlers.get('cron:command')?.(data);
+      await vi.waitFor(() => expect(replies).not.toHaveLength(0));
+      return replies.pop();
+    };
+
+    await expect(send({ action: 'pause', job: 'sync', token: 'guess' })).resolves.toEqual({
+      action: 'pause',
+      job: 'sync',
+      ok: false,
+      error: 'Not authorized',
+    });
+    await expect(
+      send({ action: 'trigger', job: 'sync', token: 'secret', id: '7' })
+    ).resolves.toMatchObject({ id: '7', ok: true, run: { job: 'sync', status: 'success' } });
+    await expect(send({ action: 'pause', job: 'sync', token: 'secret' })).resolves.toMatchObject({
+      ok: true,
+    });
+    expect(service.getJobs()[0]?.paused).toBe(true);
+    await expect(send({ action: 'drop', job: 'sync' })).resolves.toEqual({
+      ok: false,
+      error: 'Invalid cron command',
+    });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CronService interval and one-shot schedules', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-07-01T12:00:10Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs interval jobs on epoch-aligned ticks with jitter until stopAll', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const task = vi.fn();
+    const service = new CronService();
+    service.addJob({ name: 'poll', schedule: { every: '45s', jitterMs: 2000 }, task });
+    service.addJob({ name: 'off', schedule: { every: 1000 }, enabled: false, task });
+    await service.init();
+
+    expect(service.getJobs()).toMatchObject([
+      { name: 'poll', running: true, nextRunAt: new Date('2026-07-01T12:00:45Z') },
+      { name: 'off', enabled: false, running: false },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(35_999);
+    expect(task).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(45_000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    service.stopAll();
+    expect(vi.getTimerCount()).toBe(0);
+    await vi.advanceTimersByTimeAsync(90_000);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs one-shot jobs once and skips dates in the past', async () => {
+    const task = vi.fn();
+    const service = new CronService();
+    service.addJob({ name: 'launch', schedule: { at: new Date('2026-07-01T12:01:00Z') }, task });
+    service.addJob({ name: 'past', schedule: { at: new Date('2026-07-01T11:00:00Z') }, task });
+    await service.init();
+
+    expect(service.getJobs().map((job) => job.running)).toEqual([true, false]);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(service.getJobs()[0]).toMatchObject({ running: false, nextRunAt: null, runCount: 1 });
+  });
+
+  it('rejects invalid intervals and dates', () => {
+    const service = new CronService();
+
+    expect(() =>
+      service.addJob({ name: 'bad', schedule: { every: '5 weeks' }, task: vi.fn() })
+    ).toThrow('Invalid interval "5 weeks" for job "bad"');
+    expect(() =>
+      service.addJob({ name: 'bad', schedule: { at: new Date('nope') }, task: vi.fn() })
+    ).toThrow('Invalid date for job "bad"');
+  });
+});
@@ -1,16 +1,156 @@
 import cron, { type ScheduledTask } from 'node-cron';
-import pino from 'pino';
-import type { ICronService, CronJobConfig } from '../types.js';
+import { hostname } from 'os';
+import { backoffDelay, sleep } from '../utils/backoff.js';
+import {
+  CronSchedule,
+  IntervalSchedule,
+  OneShotSchedule,
+  parseDuration,
+  type TickSchedule,
+} from '../utils/cron-schedule.js';
+import type {
+  ICronService,
+  CronJobConfig,
+  CronJobInfo,
+  CronHistoryOptions,
+  CronHistoryStore,
+  CronCommand,
+  CronCommandOptions,
+  CronCommandResult,
+  CronLastRunStore,
+  CronRun,
+  ILoggerService,
+  IWebSocketService,
+} from '../types.js';
+import type { LockService } from './lock.service.js';
+import { MemoryCronLastRunStore } from './cron-last-run.service.js';
+import { LoggerService } from './logger.service.js';
+
+/** Recorded as the node of every run of this process */
+const NODE = `${hostname()}:${String(process.pid)}`;
+
+/** Largest delay setTimeout accepts */
+const MAX_TIMER_MS = 2_147_483_647;
+
+type JobTask = Pick<ScheduledTask, 'stop'>;
 
-const logger = pino({ name: 'katax:cron' });
+/**
+ * Ticks of a job's schedule, validating it
+ */
+function createSchedule(job: CronJobConfig): TickSchedule {
+  const { schedule } = job;
+
+  if (typeof schedule === 'string') {
+    if (!cron.validate(schedule)) {
+      throw new Error(`Invalid cron expression "${schedule}" for job "${job.name}"`);
+    }
+    return new CronSchedule(schedule, job.timezone ?? 'UTC');
+  }
+
+  if ('every' in schedule) {
+    const everyMs = parseDuration(schedule.every);
+    if (!Number.isFinite(everyMs) || everyMs <= 0) {
+      throw new Error(`Invalid interval "${String(schedule.every)}" for job "${job.name}"`);
+    }
+    return new IntervalSchedule(everyMs);
+  }
+
+  if (!(schedule.at instanceof Date) || Number.isNaN(schedule.at.getTime())) {
+    throw new Error(`Invalid date for job "${job.name}"`);
+  }
+  return new OneShotSchedule(schedule.at);
+}
+
+/**
+ * Call `onTick` at each tick of `schedule` after `from`, delayed by a random 0 to
+ * `jitterMs` ms, then `onEnd` once the schedule has no more ticks
+ */
+function createTimer(
+  schedule: TickSchedule,
+  from: Date,
+  jitterMs: number,
+  onTick: (tick: Date) => void,
+  onEnd: () => void
+): JobTask {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const arm = (after: Date): void => {
+    const tick = schedule.next(after);
+    if (!tick) {
+      onEnd();
+      return;
+    }
+
+    const due = tick.getTime() + Math.floor(Math.random() * (jitterMs + 1));
+    const wait = (): void => {
+      if (stopped) {
+        return;
+      }
+      const delay = due - Date.now();
+      if (delay > 0) {
+        // Longer delays fire at once, so wake up early and wait again
+        timer = setTimeout(wait, Math.min(delay, MAX_TIMER_MS));
+        return;
+      }
+      onTick(tick);
+      arm(new Date(Math.max(Date.now(), tick.getTime())));
+    };
+    wait();
+  };
+
+  arm(from);
+
+  return {
+    stop: (): void => {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Options for CronService
+ */
+export interface CronServiceOptions {
+  /**
+   * Lock service for a Redis connection name, used by jobs with `distributed`
+   */
+  locks?: (redisName: string) => Pick<LockService, 'acquire'>;
+
+  /**
+   * Last scheduled run of jobs with `catchUp`
+   * @default in-memory store
+   */
+  lastRunStore?: CronLastRunStore;
+
+  /**
+   * Logger for job and scheduler events, usually katax.logger so they reach its
+   * transports and WebSocket broadcast
+   * @default a standalone pino logger at `info` level
+   */
+  logger?: ILoggerService;
+}
 
 /**
  * Job state information
  */
 interface JobState {
   config: CronJobConfig;
-  task: ScheduledTask | null;
+  schedule: TickSchedule;
+  /** Service logger with the job name bound */
+  logger: ILoggerService;
+  task: JobTask | null;
   running: boolean;
+  /** Scheduled, but ticks are skipped */
+  paused: boolean;
+  /** Runs in progress; more than one only without preventOverlap */
+  activeRuns: number;
+  lastRunAt: Date | null;
+  lastDurationMs: number | null;
+  lastError: string | null;
+  runCount: number;
+  failureCount: number;
 }
 
 /**
@@ -54,19 +194,135 @@ interface JobState {
 export class CronService implements ICronService {
   private jobs: Map<string, JobState> = new Map();
   private initialized = false;
+  private historyStore: CronHistoryStore | null = null;
+  private socketService: IWebSocketService | null = null;
+  private lastRunStore: CronLastRunStore;
+  private readonly logger: ILoggerService;
+
+  constructor(private readonly options: CronServiceOptions = {}) {
+    this.lastRunStore = options.lastRunStore ?? new MemoryCronLastRunStore();
+    this.logger = (options.logger ?? new LoggerService()).child({ name: 'katax:cron' });
+  }
+
+  /**
+   * Where jobs with `catchUp` record their last scheduled run.
+   * Set it before adding jobs: catch-up runs when a job is added.
+   */
+  public setLastRunStore(store: CronLastRunStore): void {
+    this.lastRunStore = store;
+  }
+
+  /**
+   * Persist every run to a history store (null to stop recording)
+   */
+  public setHistoryStore(store: CronHistoryStore | null): void {
+    this.historyStore = store;
+  }
+
+  /**
+   * Broadcast every run as a `cron` event on this WebSocket
+   */
+  public setSocketService(socketService: IWebSocketService): void {
+    this.socketService = socketService;
+  }
+
+  /**
+   * Recent runs of a job, newest first
+   *
+   * @example
+   * const runs = await katax.cronService.getHistory('cleanup', { limit: 10 });
+   */
+  public async getHistory(name: string, options: CronHistoryOptions = {}): Promise<CronRun[]> {
+    if (!this.historyStore) {
+      throw new Error('Cron history is not configured. Call katax.cronHistory() first');
+    }
+    return this.historyStore.list(name, options.limit ?? 20);
+  }
+
+  /**
+   * Let clients of a WebSocket trigger, pause and resume jobs by emitting
+   * `cron:command` with `{ action, job, token?, id? }`. Every command must pass
+   * `authorize`; the outcome is sent back to the client as `cron:command-result`,
+   * after the run has finished for triggers.
+   *
+   * @example
+   * cronService.listenForCommands(katax.ws('main'), {
+   *   authorize: (command) => command.token === process.env.CRON_ADMIN_TOKEN,
+   * });
+   */
+  public listenForCommands(socketService: IWebSocketService, options: CronCommandOptions): void {
+    socketService.onConnection((socket) => {
+      socket.on('cron:command', (data: unknown) => {
+        void this.handleCommand(data, options).then((result) => {
+          socket.emit('cron:command-result', result);
+        });
+      });
+    });
+  }
+
+  private async handleCommand(
+    data: unknown,
+    options: CronCommandOptions
+  ): Promise<CronCommandResult> {
+    const command = data as Partial<CronCommand> | null;
+    if (
+      typeof command !== 'object' ||
+      command === null ||
+      typeof command.job !== 'string' ||
+      !['trigger', 'pause', 'resume'].includes(String(command.action))
+    ) {
+      return { ok: false, error: 'Invalid cron command' };
+    }
+
+    const { action, job } = command as CronCommand;
+    const result: CronCommandResult = {
+      ...(typeof command.id === 'string' && { id: command.id }),
+      action,
+      job,
+      ok: false,
+    };
 
-  private async runOnInitJob(name: string, jobState: JobState): Promise<void> {
-    logger.info({ job: name }, 'Running job on init');
     try {
-      await Promise.resolve(jobState.config.task());
+      if (!(await options.authorize(command as CronCommand))) {
+        this.logger.warn({ message: 'Rejected unauthorized cron command', job, action });
+        return { ...result, error: 'Not authorized' };
+      }
+
+      switch (action) {
+        case 'trigger':
+          return { ...result, ok: true, run: await this.triggerJob(job) };
+        case 'pause':
+          this.pauseJob(job);
+          break;
+        case 'resume':
+          this.resumeJob(job);
+          break;
+      }
+      return { ...result, ok: true };
     } catch (error) {
-      logger.error({ job: name, err: error }, 'Error running job on init');
+      return { ...result, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async runOnInitJob(name: string, jobState: JobState): Promise<void> {
+    jobState.logger.info({ message: 'Running job on init' });
+    await this.execute(name, jobState);
+  }
+
+  /**
+   * Catch up missed ticks, then run the job if it has runOnInit=true
+   */
+  private async startup(name: string, jobState: JobState): Promise<void> {
+    await this.catchUp(name, jobState);
+
+    if (jobState.config.runOnInit === true) {
+      await this.runOnInitJob(name, jobState);
     }
   }
 
   /**
    * Initialize the cron service
-   * Starts all enabled jobs and optionally runs those with runOnInit=true
+   * Starts all enabled jobs, catches up missed ticks and runs those with runOnInit=true
    */
   public async init(): Promise<void> {
     if (this.initialized) {
@@ -82,10 +338,8 @@ export class CronService implements ICronService {
     }
 
     for (const [name, jobState] of this.jobs.entries()) {
-      const isEnabled = this.isJobEnabled(jobState.config);
-
-      if (isEnabled && jobState.config.runOnInit === true) {
-        await this.runOnInitJob(name, jobState);
+      if (this.isJobEnabled(jobState.config)) {
+        await this.startup(name, jobState);
       }
     }
 
@@ -101,24 +355,34 @@ export class CronService implements ICronService {
       throw new Error(`Cron job "${job.name}" already exists`);
     }
 
-    if (!cron.validate(job.schedule)) {
-      throw new Error(`Invalid cron expression "${job.schedule}" for job "${job.name}"`);
+    const schedule = createSchedule(job);
+
+    if (job.distributed && !this.options.locks) {
+      throw new Error(
+        `Cron job "${job.name}" is distributed but the cron service has no Redis lock provider`
+      );
     }
 
     const jobState: JobState = {
       config: job,
+      schedule,
+      logger: this.logger.child({ job: job.name }),
       task: null,
       running: false,
+      paused: false,
+      activeRuns: 0,
+      lastRunAt: null,
+      lastDurationMs: null,
+      lastError: null,
+      runCount: 0,
+      failureCount: 0,
     };
 
     this.jobs.set(job.name, jobState);
 
     if (this.initialized && this.isJobEnabled(job)) {
       this.startJobInternal(job.name, jobState);
-
-      if (job.runOnInit === true) {
-        void this.runOnInitJob(job.name, jobState);
-      }
+      void this.startup(job.name, jobState);
     }
   }
 
@@ -150,18 +414,68 @@ export class CronService implements ICronService {
     }
 
     if (!this.isJobEnabled(jobState.config)) {
-      logger.warn({ job: name }, 'Job is disabled, skipping start');
+      jobState.logger.warn({ message: 'Job is disabled, skipping start' });
       return;
     }
 
     if (jobState.running) {
-      logger.warn({ job: name }, 'Job is already running');
+      jobState.logger.warn({ message: 'Job is already running' });
       return;
     }
 
     this.startJobInternal(name, jobState);
   }
 
+  /**
+   * Run a job now, outside its schedule. Resolves when the run finishes, with
+   * its outcome; a failing task does not reject.
+   * Works for stopped, paused and disabled jobs too.
+   *
+   * @example
+   * const run = await katax.cronService.triggerJob('cleanup');
+   * if (run.status === 'failure') console.error(run.error);
+   */
+  public async triggerJob(name: string): Promise<CronRun> {
+    const jobState = this.jobs.get(name);
+    if (!jobState) {
+      throw new Error(`Cron job "${name}" not found`);
+    }
+
+    jobState.logger.info({ message: 'Triggering job manually' });
+    const run = await this.execute(name, jobState);
+    if (!run) {
+      throw new Error(`Cron job "${name}" is already running`);
+    }
+    return run;
+  }
+
+  /**
+   * Skip the job's ticks until resumeJob(). Unlike stopJob(), the job stays
+   * scheduled and getJobs() keeps reporting it as running.
+   */
+  public pauseJob(name: string): void {
+    const jobState = this.jobs.get(name);
+    if (!jobState) {
+      throw new Error(`Cron job "${name}" not found`);
+    }
+
+    jobState.paused = true;
+    jobState.logger.info({ message: 'Paused job' });
+  }
+
+  /**
+   * Resume a paused job from its next tick
+   */
+  public resumeJob(name: string): void {
+    const jobState = this.jobs.get(name);
+    if (!jobState) {
+      throw new Error(`Cron job "${name}" not found`);
+    }
+
+    jobState.paused = false;
+    jobState.logger.info({ message: 'Resumed job' });
+  }
+
   /**
    * Stop a specific job
    */
@@ -175,19 +489,29 @@ export class CronService implements ICronService {
       jobState.task.stop();
       jobState.task = null;
       jobState.running = false;
-      logger.info({ job: name }, 'Stopped job');
+      jobState.logger.info({ message: 'Stopped job' });
     }
   }
 
   /**
-   * Get all registered jobs with their status
+   * Get all registered jobs with their status and run statistics
    */
-  public getJobs(): Array<{ name: string; schedule: string; enabled: boolean; running: boolean }> {
+  public getJobs(): CronJobInfo[] {
+    const now = new Date();
     return Array.from(this.jobs.entries()).map(([name, jobState]) => ({
       name,
       schedule: jobState.config.schedule,
       enabled: this.isJobEnabled(jobState.config),
       running: jobState.running,
+      paused: jobState.paused,
+      executing: jobState.activeRuns > 0,
+      nextRunAt: jobState.running && !jobState.paused ? jobState.schedule.next(now) : null,
+      previousRunAt: jobState.schedule.previous(now),
+      lastRunAt: jobState.lastRunAt,
+      lastDurationMs: jobState.lastDurationMs,
+      lastError: jobState.lastError,
+      runCount: jobState.runCount,
+      failureCount: jobState.failureCount,
     }));
   }
 
@@ -202,7 +526,7 @@ export class CronService implements ICronService {
         jobState.running = false;
       }
     }
-    logger.info('All cron jobs stopped');
+    this.logger.info({ message: 'All cron jobs stopped' });
   }
 
   /**
@@ -220,36 +544,309 @@ export class CronService implements ICronService {
     try {
       return config.enabled();
     } catch (error) {
-      logger.error({ job: config.name, err: error }, 'Error evaluating enabled function');
+      this.logger.error({
+        message: 'Error evaluating enabled function',
+        job: config.name,
+        err: error,
+      });
       return false;
     }
   }
 
   /**
-   * Internal method to start a job
+   * Run a job once: skip if `preventOverlap` and a run is in progress, retry on
+   * failure, abort attempts exceeding `timeoutMs`, then record the run statistics
+   * and report the run. Never throws; failures are logged.
+   * Resolves to the finished run, or null when it was skipped.
    */
-  private startJobInternal(name: string, jobState: JobState): void {
+  private async execute(name: string, jobState: JobState): Promise<CronRun | null> {
     const { config } = jobState;
 
-    const task = cron.schedule(
-      config.schedule,
-      async () => {
-        logger.debug({ job: name, schedule: config.schedule }, 'Executing job');
-        try {
-          await Promise.resolve(config.task());
-        } catch (error) {
-          logger.error({ job: name, err: error }, 'Error executing job');
+    if (config.preventOverlap === true && jobState.activeRuns > 0) {
+      jobState.logger.warn({ message: 'Previous run still in progress, skipping' });
+      return null;
+    }
+
+    const startedAt = new Date();
+    const attempts = 1 + (config.retry?.attempts ?? 0);
+    let attemptsMade = 0;
+    let failure: { error: unknown } | null = null;
+    jobState.activeRuns++;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      attemptsMade = attempt;
+      if (attempt > 1) {
+        await sleep(
+          backoffDelay(attempt - 1, {
+            baseDelayMs: config.retry?.backoffMs ?? 1000,
+            maxDelayMs: MAX_TIMER_MS,
+            jitter: 0,
+          })
+        );
+      }
+
+      try {
+        await this.runAttempt(config);
+        failure = null;
+        break;
+      } catch (error) {
+        failure = { error };
+        if (attempt < attempts) {
+          jobState.logger.warn({ message: 'Job attempt failed, retrying', attempt, err: error });
         }
-      },
-      {
-        timezone: config.timezone ?? 'UTC',
       }
+    }
+
+    const finishedAt = new Date();
+    jobState.activeRuns--;
+    jobState.lastRunAt = startedAt;
+    jobState.lastDurationMs = finishedAt.getTime() - startedAt.getTime();
+    jobState.runCount++;
+
+    const run: CronRun = {
+      job: name,
+      startedAt,
+      finishedAt,
+      durationMs: jobState.lastDurationMs,
+      status: 'success',
+      attempts: attemptsMade,
+      error: null,
+      errorStack: null,
+      node: NODE,
+    };
+
+    if (failure) {
+      const { error } = failure;
+      jobState.failureCount++;
+      run.status = 'failure';
+      run.error = error instanceof Error ? error.message : String(error);
+      run.errorStack = error instanceof Error ? (error.stack ?? null) : null;
+      jobState.logger.error({ message: 'Error executing job', err: error });
+    }
+
+    jobState.lastError = run.error;
+    await this.report(jobState, run);
+    return run;
+  }
+
+  /**
+   * Broadcast a finished run and append it to the history store.
+   * Failures are logged; they never fail the job.
+   */
+  private async report(jobState: JobState, run: CronRun): Promise<void> {
+    try {
+      this.socketService?.emit('cron', run);
+    } catch (error) {
+      jobState.logger.warn({ message: 'Failed to broadcast job run', err: error });
+    }
+
+    try {
+      await this.historyStore?.record(run);
+    } catch (error) {
+      jobState.logger.warn({ message: 'Failed to record job run', err: error });
+    }
+  }
+
+  /**
+   * One call of the task. With `timeoutMs`, the task's AbortSignal is aborted and
+   * the attempt fails when the time is up, even if the task ignores the signal.
+   */
+  private async runAttempt(config: CronJobConfig): Promise<void> {
+    const controller = new AbortController();
+    const run = Promise.resolve().then(() => config.task(controller.signal));
+
+    if (config.timeoutMs === undefined) {
+      await run;
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(
+          `Cron job "${config.name}" timed out after ${String(config.timeoutMs)}ms`
+        );
+        controller.abort(error);
+        reject(error);
+      }, config.timeoutMs);
+    });
+
+    try {
+      await Promise.race([run, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Take the lock for a tick (its scheduled time, epoch ms) so only one replica runs it.
+   * The lock is not released: it expires after `lockTtlMs`, so a replica that
+   * fires the same tick later still finds it taken.
+   */
+  private async claimTick(name: string, jobState: JobState, tick: number): Promise<boolean> {
+    const { locks } = this.options;
+    const { distributed } = jobState.config;
+    if (!locks || !distributed) {
+      return true;
+    }
+
+    try {
+      const lock = await locks(distributed.redis).acquire(`cron:${name}:${String(tick)}`, {
+        ttlMs: distributed.lockTtlMs ?? 60_000,
+      });
+      if (!lock) {
+        jobState.logger.debug({
+          message: 'Skipping tick, another instance is running it',
+          tick: new Date(tick).toISOString(),
+        });
+        return false;
+      }
+      return true;
+    } catch (error) {
+      jobState.logger.warn({
+        message: 'Could not take distributed job lock, skipping tick',
+        err: error,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Run the ticks a job missed since its last recorded run, within `maxLatenessMs`.
+   * Without a recorded run there is nothing to compare with, so the current time
+   * becomes the starting point.
+   */
+  private async catchUp(name: string, jobState: JobState): Promise<void> {
+    const { config } = jobState;
+    const mode = config.catchUp ?? 'none';
+    if (mode === 'none') {
+      return;
+    }
+
+    const now = new Date();
+    let lastRun: Date | null;
+    try {
+      lastRun = await this.lastRunStore.get(name);
+    } catch (error) {
+      jobState.logger.warn({ message: 'Could not read last run, skipping catch-up', err: error });
+      return;
+    }
+
+    if (!lastRun) {
+      await this.recordLastRun(name, jobState, now);
+      return;
+    }
+
+    const { schedule } = jobState;
+    const since = new Date(
+      Math.max(lastRun.getTime(), now.getTime() - (config.maxLatenessMs ?? 86_400_000) - 1)
     );
+    const missed: Date[] = [];
+    if (mode === 'once') {
+      const latest = schedule.previous(now);
+      if (latest && latest > since) {
+        missed.push(latest);
+      }
+    } else {
+      for (let tick = schedule.next(since); tick && tick < now; tick = schedule.next(tick)) {
+        missed.push(tick);
+      }
+    }
+
+    if (missed.length === 0) {
+      return;
+    }
+
+    jobState.logger.info({
+      message: 'Catching up missed runs',
+      missed: missed.length,
+      catchUp: mode,
+    });
+    for (const tick of missed) {
+      if (!(await this.claimTick(name, jobState, tick.getTime()))) {
+        continue;
+      }
+      await this.recordLastRun(name, jobState, tick);
+      await this.execute(name, jobState);
+    }
+  }
+
+  private async recordLastRun(name: string, jobState: JobState, at: Date): Promise<void> {
+    try {
+      await this.lastRunStore.set(name, at);
+    } catch (error) {
+      jobState.logger.warn({ message: 'Could not record last run', err: error });
+    }
+  }
+
+  /**
+   * Run a scheduled tick unless the job is paused or another replica claimed it
+   */
+  private async runTick(name: string, jobState: JobState, tick: number): Promise<void> {
+    const { config } = jobState;
+
+    if (jobState.paused) {
+      jobState.logger.debug({ message: 'Skipping tick, job is paused' });
+      return;
+    }
+
+    if (!(await this.claimTick(name, jobState, tick))) {
+      return;
+    }
+
+    if ((config.catchUp ?? 'none') !== 'none') {
+      await this.recordLastRun(name, jobState, new Date(tick));
+    }
+
+    jobState.logger.debug({ message: 'Executing job', schedule: config.schedule });
+    await this.execute(name, jobState);
+  }
 
-    task.start();
+  /**
+   * Internal method to start a job. Cron expressions run on node-cron; intervals
+   * and dates run on timers, whose ticks are the planned times so every replica
+   * claims the same tick.
+   */
+  private startJobInternal(name: string, jobState: JobState): void {
+    const { config } = jobState;
+
+    if (typeof config.schedule === 'string') {
+      const task = cron.schedule(
+        config.schedule,
+        () => {
+          // node-cron fires at or after the tick, possibly late: key the run by the
+          // scheduled time so every replica claims the same tick
+          const now = Date.now();
+          const tick = jobState.schedule.previous(new Date(now + 1))?.getTime() ?? now;
+          return this.runTick(name, jobState, tick);
+        },
+        {
+          timezone: config.timezone ?? 'UTC',
+        }
+      );
+      task.start();
+      jobState.task = task;
+    } else {
+      const now = new Date();
+      if (!jobState.schedule.next(now)) {
+        jobState.logger.info({ message: 'Job has no upcoming runs', schedule: config.schedule });
+        return;
+      }
+
+      jobState.task = createTimer(
+        jobState.schedule,
+        now,
+        config.schedule.jitterMs ?? 0,
+        (tick) => void this.runTick(name, jobState, tick.getTime()),
+        () => {
+          jobState.task = null;
+          jobState.running = false;
+          jobState.logger.info({ message: 'Job has no more runs' });
+        }
+      );
+    }
 
-    jobState.task = task;
     jobState.running = true;
-    logger.info({ job: name, schedule: config.schedule }, 'Started job');
+    jobState.logger.info({ message: 'Started job', schedule: config.schedule });
   }
 }
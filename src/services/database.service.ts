@@ -1,23 +1,69 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { MigrationService, type MigrationTarget } from './migration.service.js';
+import { QueryMetrics, redactSql } from '../utils/query-metrics.js';
+import { backoffDelay, sleep } from '../utils/backoff.js';
+import {
+  isReadonlyCommand,
+  sendClusterCommand,
+  type RedisArg,
+  type RedisClusterLike,
+} from '../utils/redis-cluster.js';
+import {
+  buildInsert,
+  buildSelectOne,
+  buildUpdate,
+  buildUpsert,
+  compileSql,
+  type CompiledSql,
+  type SqlDialect,
+} from '../utils/sql.js';
 import type {
+  DatabaseQueryStats,
+  ILoggerService,
   IDatabaseService,
+  IMigrationRunner,
   DatabaseConfig,
   ISqlDatabase,
   IMongoDatabase,
   IRedisDatabase,
+  ISqlExecutor,
+  ISqlTransaction,
+  IMongoCollection,
+  IMongoSession,
+  MongoDBConnectionOptions,
+  MongoStreamOptions,
+  MongoTransactionOptions,
+  RedisMessageHandler,
+  ReplicaSelection,
+  ReplicaStatus,
+  ReplicatedConnectionOptions,
+  SqlConnectionTarget,
+  SqlFragment,
+  SqlIsolationLevel,
+  SqlSelectOptions,
+  SqlTransactionOptions,
+  SqlUpsertOptions,
+  SqlWhere,
+  SqlWriteOptions,
+  SqlWriteResult,
+  StreamOptions,
 } from '../types.js';
 
 /**
  * Database service implementation
  * Singleton wrapper for database connection pools
  */
-type RedisArg = string | number | Buffer;
-
 interface PostgresPoolLike {
   query: (text: string, values?: unknown[]) => Promise<{ rows: unknown }>;
   connect: () => Promise<unknown>;
   end: () => Promise<void>;
 }
 
+interface PostgresClientLike {
+  query: (text: string, values?: unknown[]) => Promise<{ rows: unknown }>;
+  release: (destroy?: boolean) => void;
+}
+
 interface MySQLPoolLike {
   query: (text: string, values?: unknown[]) => Promise<unknown>;
   execute: (queryText: string, values?: unknown[]) => Promise<[unknown, unknown]>;
@@ -25,15 +71,96 @@ interface MySQLPoolLike {
   end: () => Promise<void>;
 }
 
+interface MySQLConnectionLike {
+  query: (text: string, values?: unknown[]) => Promise<unknown>;
+  execute: (queryText: string, values?: unknown[]) => Promise<[unknown, unknown]>;
+  release: () => void;
+  destroy: () => void;
+}
+
+interface SQLiteStatementLike {
+  reader: boolean;
+  all: (...params: unknown[]) => unknown[];
+  iterate: (...params: unknown[]) => IterableIterator<unknown>;
+  run: (...params: unknown[]) => { changes: number; lastInsertRowid: number | bigint };
+}
+
+interface SQLiteDatabaseLike {
+  prepare: (sql: string) => SQLiteStatementLike;
+  exec: (sql: string) => unknown;
+  close: () => unknown;
+}
+
 interface MongoClientLike {
   close: () => Promise<void>;
 }
 
+interface MongoCursorLike extends AsyncIterable<unknown> {
+  close: () => Promise<void>;
+}
+
+interface MongoQueryClientLike {
+  db: (name?: string) => {
+    collection: (name: string) => {
+      find: (filter: Record<string, unknown>, options?: Record<string, unknown>) => MongoCursorLike;
+    };
+  };
+}
+
+interface MongoSessionLike {
+  withTransaction: (
+    fn: () => Promise<unknown>,
+    options?: Record<string, unknown>
+  ) => Promise<unknown>;
+  endSession: () => Promise<void>;
+}
+
+interface MongoSessionClientLike {
+  startSession: () => MongoSessionLike;
+}
+
+/**
+ * Row stream returned by the callback API of a mysql2 connection
+ */
+interface MySQLRowStreamLike extends AsyncIterable<unknown> {
+  destroy: () => void;
+}
+
+interface MySQLCoreConnectionLike {
+  query: (
+    sql: string,
+    values?: unknown[]
+  ) => { stream: (options?: { highWaterMark?: number }) => MySQLRowStreamLike };
+}
+
 interface RedisClientLike {
   quit: () => Promise<void>;
   sendCommand: (commandArgs: RedisArg[]) => Promise<unknown>;
 }
 
+interface RedisSentinelLike {
+  sendCommand: (isReadonly: boolean | undefined, commandArgs: RedisArg[]) => Promise<unknown>;
+}
+
+interface RedisClosableLike {
+  quit?: () => Promise<unknown>;
+  close?: () => Promise<unknown>;
+}
+
+type RedisListener = (message: string, channel: string) => void;
+
+interface RedisSubscriberLike extends RedisClosableLike {
+  subscribe: (channel: string, listener: RedisListener) => Promise<unknown>;
+  pSubscribe: (pattern: string, listener: RedisListener) => Promise<unknown>;
+  unsubscribe: (channel?: string, listener?: RedisListener) => Promise<unknown>;
+  pUnsubscribe: (pattern?: string, listener?: RedisListener) => Promise<unknown>;
+  on: (event: string, listener: (...args: unknown[]) => void) => unknown;
+}
+
+interface RedisDuplicableLike {
+  duplicate: () => { connect: () => Promise<unknown> };
+}
+
 function isObject(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
@@ -57,10 +184,69 @@ function isMySQLPoolLike(pool: unknown): pool is MySQLPoolLike {
   );
 }
 
+function isPostgresClientLike(client: unknown): client is PostgresClientLike {
+  return (
+    isObject(client) &&
+    typeof client['query'] === 'function' &&
+    typeof client['release'] === 'function'
+  );
+}
+
+function isMySQLConnectionLike(connection: unknown): connection is MySQLConnectionLike {
+  return (
+    isObject(connection) &&
+    typeof connection['query'] === 'function' &&
+    typeof connection['execute'] === 'function' &&
+    typeof connection['release'] === 'function' &&
+    typeof connection['destroy'] === 'function'
+  );
+}
+
+function isSQLiteDatabaseLike(db: unknown): db is SQLiteDatabaseLike {
+  return (
+    isObject(db) &&
+    typeof db['prepare'] === 'function' &&
+    typeof db['exec'] === 'function' &&
+    typeof db['close'] === 'function'
+  );
+}
+
 function isMongoClientLike(pool: unknown): pool is MongoClientLike {
   return isObject(pool) && typeof pool['close'] === 'function';
 }
 
+function isMongoQueryClientLike(pool: unknown): pool is MongoQueryClientLike {
+  return isObject(pool) && typeof pool['db'] === 'function';
+}
+
+function isMongoSessionClientLike(pool: unknown): pool is MongoSessionClientLike {
+  return isObject(pool) && typeof pool['startSession'] === 'function';
+}
+
+function isMySQLCoreConnectionLike(connection: unknown): connection is MySQLCoreConnectionLike {
+  return isObject(connection) && typeof connection['query'] === 'function';
+}
+
+/**
+ * Group rows from any (async) iterable into arrays of up to `batchSize`
+ */
+async function* batchRows(
+  rows: AsyncIterable<unknown> | Iterable<unknown>,
+  batchSize: number
+): AsyncGenerator<unknown[]> {
+  let batch: unknown[] = [];
+  for await (const row of rows) {
+    batch.push(row);
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
 function isRedisClientLike(pool: unknown): pool is RedisClientLike {
   return (
     isObject(pool) &&
@@ -69,12 +255,175 @@ function isRedisClientLike(pool: unknown): pool is RedisClientLike {
   );
 }
 
+function isRedisClusterLike(pool: unknown): pool is RedisClusterLike {
+  return (
+    isObject(pool) &&
+    typeof pool['sendCommand'] === 'function' &&
+    typeof pool['nodeClient'] === 'function' &&
+    Array.isArray(pool['masters'])
+  );
+}
+
+/**
+ * Channels with glob characters are subscribed with PSUBSCRIBE
+ */
+function isRedisPattern(channel: string): boolean {
+  return /[*?[]/.test(channel);
+}
+
+function isRedisDuplicableLike(pool: unknown): pool is RedisDuplicableLike {
+  return isObject(pool) && typeof pool['duplicate'] === 'function';
+}
+
+function isRedisSubscriberLike(client: unknown): client is RedisSubscriberLike {
+  return (
+    isObject(client) &&
+    typeof client['subscribe'] === 'function' &&
+    typeof client['pSubscribe'] === 'function' &&
+    typeof client['unsubscribe'] === 'function' &&
+    typeof client['pUnsubscribe'] === 'function' &&
+    typeof client['on'] === 'function'
+  );
+}
+
+function isRedisSentinelLike(pool: unknown): pool is RedisSentinelLike {
+  return isObject(pool) && typeof pool['sendCommand'] === 'function';
+}
+
+function isReplicatedConnection(
+  connection: DatabaseConfig['connection']
+): connection is ReplicatedConnectionOptions {
+  return isObject(connection) && 'primary' in connection && 'replicas' in connection;
+}
+
+const READ_QUERY_PATTERN = /^(select|show|explain|describe|desc|with)\b/i;
+const WRITE_QUERY_PATTERN =
+  /\b(insert|update|delete|merge|into|for\s+(no\s+key\s+)?update|for\s+(key\s+)?share|lock\s+in\s+share\s+mode)\b/i;
+/**
+ * Functions that write, take locks or depend on the session (sequences, advisory
+ * locks, LAST_INSERT_ID), which a replica cannot serve
+ */
+const SIDE_EFFECT_FUNCTION_PATTERN =
+  /\b(nextval|setval|currval|lastval|pg_(try_)?advisory_\w+|pg_notify|set_config|txid_current|pg_current_xact_id|get_lock|release_lock|release_all_locks|last_insert_id|found_rows)\s*\(/i;
+const LEADING_COMMENTS_PATTERN = /^(\s+|--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/)*/;
+
+/**
+ * Whether a statement only reads data and may run on a replica.
+ * Anything ambiguous (row locks, SELECT INTO, data-modifying CTEs, side-effecting
+ * functions) stays on the primary. User-defined functions are assumed to only read:
+ * call the ones that write through db.primary().
+ */
+function isReadOnlyQuery(sql: string): boolean {
+  const statement = sql.replace(LEADING_COMMENTS_PATTERN, '');
+  return (
+    READ_QUERY_PATTERN.test(statement) &&
+    !WRITE_QUERY_PATTERN.test(statement) &&
+    !SIDE_EFFECT_FUNCTION_PATTERN.test(statement)
+  );
+}
+
+/** Weight of the newest sample in the smoothed replica latency */
+const REPLICA_LATENCY_SMOOTHING = 0.2;
+
+/**
+ * DatabaseService behaviour options
+ */
+export interface DatabaseServiceOptions {
+  /**
+   * Open the pool on first use instead of requiring init()
+   * Concurrent first callers share a single open.
+   * @default false
+   */
+  lazy?: boolean;
+}
+
+interface ReplicaPool {
+  name: string;
+  target: SqlConnectionTarget;
+  pool: unknown;
+  healthy: boolean;
+  latencyMs: number | null;
+}
+
+const ISOLATION_LEVEL_SQL: Record<SqlIsolationLevel, string> = {
+  'read uncommitted': 'READ UNCOMMITTED',
+  'read committed': 'READ COMMITTED',
+  'repeatable read': 'REPEATABLE READ',
+  serializable: 'SERIALIZABLE',
+};
+
+function isolationLevelSql(level: SqlIsolationLevel): string {
+  const sql = ISOLATION_LEVEL_SQL[level] as string | undefined;
+  if (!sql) {
+    throw new Error(`Unsupported isolation level: ${level}`);
+  }
+  return sql;
+}
+
+/**
+ * A single connection checked out from a SQL pool.
+ * `query` runs parameterized statements, `exec` runs transaction control statements.
+ */
+interface SqlSession {
+  query(sql: string, params?: unknown[]): Promise<unknown>;
+  exec(statement: string): Promise<void>;
+  release(destroy?: boolean): void;
+}
+
 interface DatabaseAdapter {
   init(config: DatabaseConfig): Promise<unknown>;
   query<T = unknown>(pool: unknown, sql: string, params?: unknown[]): Promise<T>;
   getClient(pool: unknown): Promise<unknown>;
   close(pool: unknown): Promise<void>;
   redis?(pool: unknown, args: RedisArg[]): Promise<unknown>;
+  subscriber?(pool: unknown): Promise<unknown>;
+  openSession?(pool: unknown): Promise<SqlSession>;
+  beginStatements?(options: SqlTransactionOptions): string[];
+  stream?(
+    pool: unknown,
+    sql: string,
+    params: unknown[] | undefined,
+    batchSize: number
+  ): AsyncGenerator<unknown[]>;
+  find?(
+    pool: unknown,
+    collection: string,
+    filter: Record<string, unknown>,
+    options: MongoStreamOptions & { batchSize: number }
+  ): AsyncGenerator<unknown[]>;
+  collection?(pool: unknown, name: string): unknown;
+  withSession?<T>(
+    pool: unknown,
+    fn: (session: unknown) => Promise<T>,
+    options: MongoTransactionOptions
+  ): Promise<T>;
+}
+
+/**
+ * Run the connection check of a freshly created pool or client. When it fails the
+ * pool is closed, so connection retries do not leak pools and sockets.
+ */
+async function checkConnection<T>(pool: T, check: () => unknown, close: () => unknown): Promise<T> {
+  try {
+    await check();
+    return pool;
+  } catch (error) {
+    try {
+      await close();
+    } catch {
+      // The check error is the one worth reporting
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drop a Redis client that may never have connected, without waiting for replies.
+ * Also stops its reconnect strategy. redis v5 renames disconnect() to destroy().
+ */
+function dropRedisClient(client: unknown): unknown {
+  const closable = client as { destroy?: () => unknown; disconnect?: () => unknown };
+  return closable.destroy ? closable.destroy() : closable.disconnect?.();
 }
 
 class PostgresAdapter implements DatabaseAdapter {
@@ -84,8 +433,11 @@ class PostgresAdapter implements DatabaseAdapter {
 
     if (typeof config.connection === 'string') {
       const pool = new Pool({ connectionString: config.connection });
-      await pool.query('SELECT 1');
-      return pool;
+      return checkConnection(
+        pool,
+        () => pool.query('SELECT 1'),
+        () => this.close(pool)
+      );
     }
 
     const conn = config.connection;
@@ -106,8 +458,11 @@ class PostgresAdapter implements DatabaseAdapter {
       connectionTimeoutMillis: config.pool?.connectionTimeoutMillis ?? 30000,
     });
 
-    await pool.query('SELECT 1');
-    return pool;
+    return checkConnection(
+      pool,
+      () => pool.query('SELECT 1'),
+      () => this.close(pool)
+    );
   }
 
   public async query<T = unknown>(pool: unknown, sql: string, params?: unknown[]): Promise<T> {
@@ -125,6 +480,83 @@ class PostgresAdapter implements DatabaseAdapter {
     return await pool.connect();
   }
 
+  public async openSession(pool: unknown): Promise<SqlSession> {
+    if (!isPostgresPoolLike(pool)) {
+      throw new Error('Invalid PostgreSQL pool instance');
+    }
+    const client = await pool.connect();
+    if (!isPostgresClientLike(client)) {
+      throw new Error('Invalid PostgreSQL client instance');
+    }
+
+    const session: SqlSession = {
+      query: async (sql, params) => (await client.query(sql, params)).rows,
+      exec: async (statement) => {
+        await client.query(statement);
+      },
+      release: (destroy) => {
+        client.release(destroy);
+      },
+    };
+    return session;
+  }
+
+  public beginStatements(options: SqlTransactionOptions): string[] {
+    const modes: string[] = [];
+    if (options.isolationLevel) {
+      modes.push(`ISOLATION LEVEL ${isolationLevelSql(options.isolationLevel)}`);
+    }
+    if (options.readOnly) {
+      modes.push('READ ONLY');
+    }
+    return [['BEGIN', ...modes].join(' ')];
+  }
+
+  /**
+   * Fetch rows through a server-side cursor inside a read transaction
+   */
+  public async *stream(
+    pool: unknown,
+    sql: string,
+    params: unknown[] | undefined,
+    batchSize: number
+  ): AsyncGenerator<unknown[]> {
+    if (!isPostgresPoolLike(pool)) {
+      throw new Error('Invalid PostgreSQL pool instance');
+    }
+    const client = await pool.connect();
+    if (!isPostgresClientLike(client)) {
+      throw new Error('Invalid PostgreSQL client instance');
+    }
+
+    let completed = false;
+    let destroy = false;
+    try {
+      await client.query('BEGIN');
+      await client.query(`DECLARE katax_stream NO SCROLL CURSOR FOR ${sql}`, params);
+
+      for (;;) {
+        const { rows } = await client.query(`FETCH ${String(batchSize)} FROM katax_stream`);
+        const batch = rows as unknown[];
+        if (batch.length > 0) {
+          yield batch;
+        }
+        if (batch.length < batchSize) {
+          break;
+        }
+      }
+      completed = true;
+    } finally {
+      try {
+        // Ending the transaction also closes the cursor, including after an early break
+        await client.query(completed ? 'COMMIT' : 'ROLLBACK');
+      } catch {
+        destroy = true;
+      }
+      client.release(destroy);
+    }
+  }
+
   public async close(pool: unknown): Promise<void> {
     if (!isPostgresPoolLike(pool)) {
       throw new Error('Invalid PostgreSQL pool instance');
@@ -145,8 +577,11 @@ class MySQLAdapter implements DatabaseAdapter {
         connectionLimit: config.pool?.max ?? 10,
         queueLimit: 0,
       });
-      await pool.query('SELECT 1');
-      return pool;
+      return checkConnection(
+        pool,
+        () => pool.query('SELECT 1'),
+        () => this.close(pool)
+      );
     }
 
     const conn = config.connection;
@@ -166,8 +601,11 @@ class MySQLAdapter implements DatabaseAdapter {
       queueLimit: 0,
     });
 
-    await pool.query('SELECT 1');
-    return pool;
+    return checkConnection(
+      pool,
+      () => pool.query('SELECT 1'),
+      () => this.close(pool)
+    );
   }
 
   public async query<T = unknown>(pool: unknown, sql: string, params?: unknown[]): Promise<T> {
@@ -185,152 +623,803 @@ class MySQLAdapter implements DatabaseAdapter {
     return await pool.getConnection();
   }
 
-  public async close(pool: unknown): Promise<void> {
+  public async openSession(pool: unknown): Promise<SqlSession> {
     if (!isMySQLPoolLike(pool)) {
       throw new Error('Invalid MySQL pool instance');
     }
-    await pool.end();
-  }
-}
-
-class MongoAdapter implements DatabaseAdapter {
-  public async init(config: DatabaseConfig): Promise<unknown> {
-    // @ts-expect-error - mongodb is an optional peer dependency
-    const { MongoClient } = await import('mongodb');
-
-    let uri: string;
-    if (typeof config.connection === 'string') {
-      uri = config.connection;
-    } else {
-      const conn = config.connection;
-      if (!('database' in conn)) {
-        throw new Error('MongoDB connection requires a "database" property');
-      }
-      const auth = conn.user && conn.password ? `${conn.user}:${conn.password}@` : '';
-      uri = `mongodb://${auth}${conn.host}:${conn.port ?? 27017}/${conn.database}`;
+    const connection = await pool.getConnection();
+    if (!isMySQLConnectionLike(connection)) {
+      throw new Error('Invalid MySQL connection instance');
     }
 
-    const client = new MongoClient(uri);
-    await client.connect();
-    return client;
+    const session: SqlSession = {
+      query: async (sql, params) => {
+        const [rows] = await connection.execute(sql, params);
+        return rows;
+      },
+      // Transaction control statements are not allowed in the prepared statement protocol
+      exec: async (statement) => {
+        await connection.query(statement);
+      },
+      release: (destroy) => {
+        if (destroy) {
+          connection.destroy();
+        } else {
+          connection.release();
+        }
+      },
+    };
+    return session;
   }
 
-  public async query<T = unknown>(_pool: unknown, _sql: string, _params?: unknown[]): Promise<T> {
-    throw new Error('Use getClient() for MongoDB operations');
+  public beginStatements(options: SqlTransactionOptions): string[] {
+    const statements: string[] = [];
+    if (options.isolationLevel) {
+      statements.push(
+        `SET TRANSACTION ISOLATION LEVEL ${isolationLevelSql(options.isolationLevel)}`
+      );
+    }
+    statements.push(options.readOnly ? 'START TRANSACTION READ ONLY' : 'START TRANSACTION');
+    return statements;
   }
 
-  public async getClient(pool: unknown): Promise<unknown> {
-    return pool;
+  /**
+   * Stream rows with the mysql2 streaming query API
+   */
+  public async *stream(
+    pool: unknown,
+    sql: string,
+    params: unknown[] | undefined,
+    batchSize: number
+  ): AsyncGenerator<unknown[]> {
+    if (!isMySQLPoolLike(pool)) {
+      throw new Error('Invalid MySQL pool instance');
+    }
+    const connection = await pool.getConnection();
+    if (!isMySQLConnectionLike(connection)) {
+      throw new Error('Invalid MySQL connection instance');
+    }
+    const core = (connection as unknown as { connection?: unknown }).connection;
+    if (!isMySQLCoreConnectionLike(core)) {
+      connection.release();
+      throw new Error('MySQL connection does not support streaming queries');
+    }
+
+    const rows = core.query(sql, params).stream({ highWaterMark: batchSize });
+    let completed = false;
+    try {
+      yield* batchRows(rows, batchSize);
+      completed = true;
+    } finally {
+      if (completed) {
+        connection.release();
+      } else {
+        // The rest of the result set is still on the wire, the connection cannot be reused
+        rows.destroy();
+        connection.destroy();
+      }
+    }
   }
 
   public async close(pool: unknown): Promise<void> {
-    if (!isMongoClientLike(pool)) {
-      throw new Error('Invalid MongoDB client instance');
+    if (!isMySQLPoolLike(pool)) {
+      throw new Error('Invalid MySQL pool instance');
     }
-    await pool.close();
+    await pool.end();
   }
 }
 
-class RedisAdapter implements DatabaseAdapter {
+class SQLiteAdapter implements DatabaseAdapter {
+  /**
+   * SQLite uses a single connection, so queries, transactions and streams are
+   * serialized through this queue: a query never runs inside another caller's transaction
+   */
+  private sessionQueue: Promise<void> = Promise.resolve();
+  /** Set while a stream is iterated: better-sqlite3 runs no other statement until it ends */
+  private streaming = false;
+
   public async init(config: DatabaseConfig): Promise<unknown> {
-    // @ts-expect-error - redis is an optional peer dependency
-    const { createClient } = await import('redis');
-    const defaultReconnectStrategy = (retries: number) => Math.min(retries * 100, 3000);
+    // @ts-expect-error - better-sqlite3 is an optional peer dependency
+    const { default: Database } = await import('better-sqlite3');
 
     if (typeof config.connection === 'string') {
-      const client = createClient({
-        url: config.connection,
-        socket: {
-          reconnectStrategy: defaultReconnectStrategy,
-        },
-      });
-      await client.connect();
-      await client.ping();
-      return client;
+      const db = new Database(config.connection);
+      return checkConnection(
+        db,
+        () => db.prepare('SELECT 1').all(),
+        () => this.close(db)
+      );
     }
 
-    const conn = config.connection as {
-      host: string;
-      port?: number;
-      password?: string;
-      db?: number;
-      tls?: boolean;
-    };
-    const protocol = conn.tls ? 'rediss' : 'redis';
-    const auth = conn.password ? `:${conn.password}@` : '';
-    const database = conn.db !== undefined ? `/${conn.db}` : '';
-    const url = `${protocol}://${auth}${conn.host}:${conn.port ?? 6379}${database}`;
+    const conn = config.connection;
+    if (!('filename' in conn)) {
+      throw new Error('SQLite connection requires a "filename" property');
+    }
 
-    const client = createClient({
-      url,
-      socket: {
-        reconnectStrategy: defaultReconnectStrategy,
-      },
+    const db = new Database(conn.filename, {
+      readonly: conn.readonly ?? false,
+      fileMustExist: conn.fileMustExist ?? false,
     });
-    await client.connect();
-    await client.ping();
-    return client;
-  }
-
-  public async query<T = unknown>(_pool: unknown, _sql: string, _params?: unknown[]): Promise<T> {
-    throw new Error('Use redis() method for Redis operations');
+    return checkConnection(
+      db,
+      () => db.prepare('SELECT 1').all(),
+      () => this.close(db)
+    );
   }
 
-  public async getClient(pool: unknown): Promise<unknown> {
-    return pool;
+  private run(db: SQLiteDatabaseLike, sql: string, params: unknown[] = []): unknown {
+    const statement = db.prepare(sql);
+    if (statement.reader) {
+      return statement.all(...params);
+    }
+    const { changes, lastInsertRowid } = statement.run(...params);
+    return { changes, lastInsertRowid };
   }
 
-  public async close(pool: unknown): Promise<void> {
-    if (!isRedisClientLike(pool)) {
-      throw new Error('Invalid Redis client instance');
+  public async query<T = unknown>(pool: unknown, sql: string, params?: unknown[]): Promise<T> {
+    if (!isSQLiteDatabaseLike(pool)) {
+      throw new Error('Invalid SQLite database instance');
     }
-    await pool.quit();
-  }
 
-  public async redis(pool: unknown, args: RedisArg[]): Promise<unknown> {
-    if (!isRedisClientLike(pool)) {
-      throw new Error('Invalid Redis client instance');
+    this.assertNotStreaming();
+    const release = await this.acquire();
+    try {
+      return this.run(pool, sql, params) as T;
+    } finally {
+      release();
     }
-    return await pool.sendCommand(args);
   }
-}
-
-export class DatabaseService implements IDatabaseService {
-  private pool: unknown;
-  public readonly config: DatabaseConfig;
-  private initialized = false;
-  private adapter: DatabaseAdapter | null = null;
 
-  constructor(config: DatabaseConfig) {
-    this.config = config;
+  public async getClient(pool: unknown): Promise<unknown> {
+    return pool;
   }
 
   /**
-   * Initialize the database connection pool
+   * Waiting for the queue would never return when the caller is the loop consuming the stream
    */
-  public async init(): Promise<void> {
-    if (this.initialized) {
-      return;
-    }
-
-    try {
-      this.adapter = this.createAdapter(this.config.type);
-      this.pool = await this.adapter.init(this.config);
-
-      this.initialized = true;
-    } catch (error) {
+  private assertNotStreaming(): void {
+    if (this.streaming) {
       throw new Error(
-        `Failed to initialize database: ${error instanceof Error ? error.message : String(error)}`
+        'the SQLite connection is busy with a stream, finish the loop before running other queries'
       );
     }
   }
 
-  private createAdapter(type: DatabaseConfig['type']): DatabaseAdapter {
+  private async acquire(): Promise<() => void> {
+    const previous = this.sessionQueue;
+    let releaseQueue: () => void = () => undefined;
+    this.sessionQueue = new Promise((resolve) => {
+      releaseQueue = resolve;
+    });
+    await previous;
+    return releaseQueue;
+  }
+
+  public async openSession(pool: unknown): Promise<SqlSession> {
+    if (!isSQLiteDatabaseLike(pool)) {
+      throw new Error('Invalid SQLite database instance');
+    }
+
+    this.assertNotStreaming();
+    const releaseQueue = await this.acquire();
+
+    const session: SqlSession = {
+      query: async (sql, params) => this.run(pool, sql, params),
+      exec: async (statement) => {
+        pool.exec(statement);
+      },
+      release: () => {
+        releaseQueue();
+      },
+    };
+    return session;
+  }
+
+  public beginStatements(_options: SqlTransactionOptions): string[] {
+    return ['BEGIN'];
+  }
+
+  /**
+   * Iterate a prepared statement. The connection is busy until the stream ends:
+   * queries and transactions started meanwhile are rejected.
+   */
+  public async *stream(
+    pool: unknown,
+    sql: string,
+    params: unknown[] | undefined,
+    batchSize: number
+  ): AsyncGenerator<unknown[]> {
+    if (!isSQLiteDatabaseLike(pool)) {
+      throw new Error('Invalid SQLite database instance');
+    }
+
+    this.assertNotStreaming();
+    const release = await this.acquire();
+    const rows = pool.prepare(sql).iterate(...(params ?? []));
+    this.streaming = true;
+    try {
+      yield* batchRows(rows, batchSize);
+    } finally {
+      this.streaming = false;
+      rows.return?.();
+      release();
+    }
+  }
+
+  public async close(pool: unknown): Promise<void> {
+    if (!isSQLiteDatabaseLike(pool)) {
+      throw new Error('Invalid SQLite database instance');
+    }
+    pool.close();
+  }
+}
+
+/**
+ * Build a MongoDB connection URI from connection options
+ */
+export function buildMongoUri(conn: MongoDBConnectionOptions): string {
+  const auth =
+    conn.user && conn.password
+      ? `${encodeURIComponent(conn.user)}:${encodeURIComponent(conn.password)}@`
+      : '';
+
+  let hosts: string;
+  if (conn.srv) {
+    if (conn.port !== undefined || conn.hosts?.length) {
+      throw new Error('MongoDB SRV connections do not accept "port" or "hosts"');
+    }
+    hosts = conn.host;
+  } else {
+    hosts = [`${conn.host}:${String(conn.port ?? 27017)}`, ...(conn.hosts ?? [])].join(',');
+  }
+
+  const params = new URLSearchParams();
+  if (conn.authSource) params.set('authSource', conn.authSource);
+  if (conn.replicaSet) params.set('replicaSet', conn.replicaSet);
+  if (conn.tls) params.set('tls', 'true');
+  const query = params.toString() ? `?${params.toString()}` : '';
+
+  return `${conn.srv ? 'mongodb+srv' : 'mongodb'}://${auth}${hosts}/${encodeURIComponent(conn.database)}${query}`;
+}
+
+class MongoAdapter implements DatabaseAdapter {
+  /** Database from the connection options; undefined uses the database in the URI */
+  private database: string | undefined;
+
+  public async init(config: DatabaseConfig): Promise<unknown> {
+    // @ts-expect-error - mongodb is an optional peer dependency
+    const { MongoClient } = await import('mongodb');
+
+    let uri: string;
+    if (typeof config.connection === 'string') {
+      uri = config.connection;
+    } else {
+      const conn = config.connection;
+      if (!('database' in conn) || !('host' in conn)) {
+        throw new Error('MongoDB connection requires "host" and "database" properties');
+      }
+      uri = buildMongoUri(conn);
+      this.database = conn.database;
+    }
+
+    // Options override the URI: only pass what is set, so URI settings and driver defaults apply otherwise
+    const pool = config.pool ?? {};
+    const client = new MongoClient(uri, {
+      ...(pool.max !== undefined && { maxPoolSize: pool.max }),
+      ...(pool.min !== undefined && { minPoolSize: pool.min }),
+      ...(pool.idleTimeoutMillis !== undefined && { maxIdleTimeMS: pool.idleTimeoutMillis }),
+      ...(pool.connectionTimeoutMillis !== undefined && {
+        connectTimeoutMS: pool.connectionTimeoutMillis,
+        serverSelectionTimeoutMS: pool.connectionTimeoutMillis,
+      }),
+    });
+    return checkConnection(
+      client,
+      () => client.connect(),
+      () => this.close(client)
+    );
+  }
+
+  public async query<T = unknown>(_pool: unknown, _sql: string, _params?: unknown[]): Promise<T> {
+    throw new Error('Use collection() or getClient() for MongoDB operations');
+  }
+
+  public collection(pool: unknown, name: string): unknown {
+    if (!isMongoQueryClientLike(pool)) {
+      throw new Error('Invalid MongoDB client instance');
+    }
+    return pool.db(this.database).collection(name);
+  }
+
+  public async withSession<T>(
+    pool: unknown,
+    fn: (session: unknown) => Promise<T>,
+    options: MongoTransactionOptions
+  ): Promise<T> {
+    if (!isMongoSessionClientLike(pool)) {
+      throw new Error('Invalid MongoDB client instance');
+    }
+
+    const session = pool.startSession();
+    try {
+      // The driver's return value of withTransaction() differs between versions
+      let result: { value: T } | undefined;
+      await session.withTransaction(
+        async () => {
+          result = { value: await fn(session) };
+        },
+        options as Record<string, unknown>
+      );
+      if (!result) {
+        throw new Error('MongoDB transaction was not executed');
+      }
+      return result.value;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  public async *find(
+    pool: unknown,
+    collection: string,
+    filter: Record<string, unknown>,
+    options: MongoStreamOptions & { batchSize: number }
+  ): AsyncGenerator<unknown[]> {
+    if (!isMongoQueryClientLike(pool)) {
+      throw new Error('Invalid MongoDB client instance');
+    }
+
+    const { batchSize, projection, sort, limit } = options;
+    const cursor = pool
+      .db(this.database)
+      .collection(collection)
+      .find(filter, {
+        batchSize,
+        ...(projection && { projection }),
+        ...(sort && { sort }),
+        ...(limit !== undefined && { limit }),
+      });
+    try {
+      yield* batchRows(cursor, batchSize);
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  public async getClient(pool: unknown): Promise<unknown> {
+    return pool;
+  }
+
+  public async close(pool: unknown): Promise<void> {
+    if (!isMongoClientLike(pool)) {
+      throw new Error('Invalid MongoDB client instance');
+    }
+    await pool.close();
+  }
+}
+
+type RedisMode = 'standalone' | 'sentinel' | 'cluster';
+
+class RedisAdapter implements DatabaseAdapter {
+  private mode: RedisMode = 'standalone';
+
+  public async init(config: DatabaseConfig): Promise<unknown> {
+    // @ts-expect-error - redis is an optional peer dependency
+    const { createClient, createCluster, createSentinel } = await import('redis');
+    const defaultReconnectStrategy = (retries: number) => Math.min(retries * 100, 3000);
+
+    if (typeof config.connection === 'string') {
+      const client = createClient({
+        url: config.connection,
+        socket: {
+          reconnectStrategy: defaultReconnectStrategy,
+        },
+      });
+      return checkConnection(
+        client,
+        async () => {
+          await client.connect();
+          await client.ping();
+        },
+        () => dropRedisClient(client)
+      );
+    }
+
+    const connection = config.connection;
+
+    if ('cluster' in connection) {
+      const cluster = createCluster({
+        rootNodes: connection.cluster.rootNodes.map((node) => ({
+          socket: { host: node.host, port: node.port ?? 6379, tls: connection.tls ?? false },
+        })),
+        useReplicas: connection.cluster.useReplicas ?? false,
+        defaults: {
+          ...(connection.password !== undefined && { password: connection.password }),
+          socket: { tls: connection.tls ?? false, reconnectStrategy: defaultReconnectStrategy },
+        },
+      });
+      this.mode = 'cluster';
+      return checkConnection(
+        cluster,
+        async () => {
+          await cluster.connect();
+          await this.redis(cluster, ['PING']);
+        },
+        () => dropRedisClient(cluster)
+      );
+    }
+
+    if ('sentinels' in connection) {
+      if (typeof createSentinel !== 'function') {
+        throw new Error('Redis Sentinel connections require redis >= 5');
+      }
+      const socket = { tls: connection.tls ?? false, reconnectStrategy: defaultReconnectStrategy };
+      const sentinel = createSentinel({
+        name: connection.masterName,
+        sentinelRootNodes: connection.sentinels.map((node) => ({
+          host: node.host,
+          port: node.port ?? 26379,
+        })),
+        nodeClientOptions: {
+          ...(connection.password !== undefined && { password: connection.password }),
+          ...(connection.db !== undefined && { database: connection.db }),
+          socket,
+        },
+        sentinelClientOptions: {
+          ...(connection.sentinelPassword !== undefined && {
+            password: connection.sentinelPassword,
+          }),
+          socket,
+        },
+      });
+      this.mode = 'sentinel';
+      return checkConnection(
+        sentinel,
+        async () => {
+          await sentinel.connect();
+          await this.redis(sentinel, ['PING']);
+        },
+        () => dropRedisClient(sentinel)
+      );
+    }
+
+    const conn = connection as {
+      host: string;
+      port?: number;
+      password?: string;
+      db?: number;
+      tls?: boolean;
+    };
+    const protocol = conn.tls ? 'rediss' : 'redis';
+    const auth = conn.password ? `:${conn.password}@` : '';
+    const database = conn.db !== undefined ? `/${conn.db}` : '';
+    const url = `${protocol}://${auth}${conn.host}:${conn.port ?? 6379}${database}`;
+
+    const client = createClient({
+      url,
+      socket: {
+        reconnectStrategy: defaultReconnectStrategy,
+      },
+    });
+    return checkConnection(
+      client,
+      async () => {
+        await client.connect();
+        await client.ping();
+      },
+      () => dropRedisClient(client)
+    );
+  }
+
+  public async query<T = unknown>(_pool: unknown, _sql: string, _params?: unknown[]): Promise<T> {
+    throw new Error('Use redis() method for Redis operations');
+  }
+
+  public async getClient(pool: unknown): Promise<unknown> {
+    return pool;
+  }
+
+  public async close(pool: unknown): Promise<void> {
+    if (this.mode === 'standalone') {
+      if (!isRedisClientLike(pool)) {
+        throw new Error('Invalid Redis client instance');
+      }
+      await pool.quit();
+      return;
+    }
+
+    // Cluster and Sentinel clients of redis v5 replace quit() with close()
+    const closable = pool as RedisClosableLike;
+    if (closable.close) {
+      await closable.close();
+    } else if (closable.quit) {
+      await closable.quit();
+    }
+  }
+
+  /**
+   * Duplicate the client for pub/sub, SUBSCRIBE puts a connection in subscriber mode
+   */
+  public async subscriber(pool: unknown): Promise<unknown> {
+    if (!isRedisDuplicableLike(pool)) {
+      throw new Error('Redis client does not support duplicate() for subscriptions');
+    }
+    const subscriber = pool.duplicate();
+    await subscriber.connect();
+    return subscriber;
+  }
+
+  public async redis(pool: unknown, args: RedisArg[]): Promise<unknown> {
+    switch (this.mode) {
+      case 'cluster':
+        if (!isRedisClusterLike(pool)) {
+          throw new Error('Invalid Redis cluster instance');
+        }
+        return await sendClusterCommand(pool, args);
+      case 'sentinel':
+        if (!isRedisSentinelLike(pool)) {
+          throw new Error('Invalid Redis sentinel instance');
+        }
+        return await pool.sendCommand(isReadonlyCommand(args), args);
+      default:
+        if (!isRedisClientLike(pool)) {
+          throw new Error('Invalid Redis client instance');
+        }
+        return await pool.sendCommand(args);
+    }
+  }
+}
+
+type QueryInstrument = <T>(sql: string, run: () => Promise<T>) => Promise<T>;
+
+interface TransactionState {
+  completed: boolean;
+  savepoints: number;
+  dialect: SqlDialect;
+  instrument: QueryInstrument;
+}
+
+/**
+ * Resolve `query(text, params)` and `query(sql\`...\`)` calls to SQL text + params
+ */
+function resolveStatement(
+  statement: string | SqlFragment,
+  params: unknown[] | undefined,
+  dialect: SqlDialect | null
+): { text: string; params: unknown[] | undefined } {
+  if (typeof statement === 'string') {
+    return { text: statement, params };
+  }
+  if (!dialect) {
+    throw new Error('sql`` queries require a postgresql, mysql or sqlite connection');
+  }
+  if (params !== undefined) {
+    throw new Error('Pass parameters inside the sql`` template, not as a second argument');
+  }
+  return compileSql(statement, dialect);
+}
+
+/**
+ * Transaction handle bound to a single checked-out connection
+ */
+class SqlTransaction implements ISqlTransaction {
+  private released = false;
+
+  constructor(
+    private readonly session: SqlSession,
+    private readonly state: TransactionState
+  ) {}
+
+  public async query<T = unknown>(sql: string | SqlFragment, params?: unknown[]): Promise<T> {
+    this.ensureActive();
+    const statement = resolveStatement(sql, params, this.state.dialect);
+
+    try {
+      return await this.state.instrument(
+        statement.text,
+        async () => (await this.session.query(statement.text, statement.params)) as T
+      );
+    } catch (error) {
+      throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  public async transaction<T>(fn: (tx: ISqlTransaction) => Promise<T>): Promise<T> {
+    this.ensureActive();
+
+    const savepoint = `katax_sp_${String(++this.state.savepoints)}`;
+    const nested = new SqlTransaction(this.session, this.state);
+    await this.session.exec(`SAVEPOINT ${savepoint}`);
+
+    try {
+      const result = await fn(nested);
+      await this.session.exec(`RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      await this.session.exec(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      throw error;
+    } finally {
+      nested.released = true;
+    }
+  }
+
+  private ensureActive(): void {
+    if (this.released || this.state.completed) {
+      throw new Error('Transaction already completed');
+    }
+  }
+}
+
+export class DatabaseService implements IDatabaseService {
+  private pool: unknown;
+  public readonly config: DatabaseConfig;
+  private initialized = false;
+  private adapter: DatabaseAdapter | null = null;
+  private migrationRunner: IMigrationRunner | null = null;
+  private readonly metrics = new QueryMetrics();
+  private replicas: ReplicaPool[] = [];
+  private replicaSelection: ReplicaSelection = 'round-robin';
+  private nextReplica = 0;
+  private opening: Promise<void> | null = null;
+  /** Marks the async context of a transaction callback */
+  private readonly transactionScope = new AsyncLocalStorage<true>();
+  private subscriber: Promise<RedisSubscriberLike> | null = null;
+  private readonly subscriptions = new Map<
+    string,
+    { handlers: Set<RedisMessageHandler>; listener: RedisListener }
+  >();
+
+  constructor(
+    config: DatabaseConfig,
+    private readonly logger?: ILoggerService,
+    private readonly options: DatabaseServiceOptions = {}
+  ) {
+    this.config = config;
+  }
+
+  /**
+   * Initialize the database connection pool
+   * With `retry` configured, failed attempts are logged and retried with exponential backoff.
+   */
+  public async init(): Promise<void> {
+    if (!this.opening) {
+      if (this.initialized) {
+        return;
+      }
+      this.opening = this.open().finally(() => {
+        this.opening = null;
+      });
+    }
+    await this.opening;
+  }
+
+  /**
+   * Whether the connection pool is open (false for lazy connections before first use)
+   */
+  public isOpen(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Wait for a pending open, and open lazy connections on first use
+   */
+  private async ensureOpen(): Promise<void> {
+    if (this.opening) {
+      await this.opening;
+    }
+    if (this.initialized) {
+      return;
+    }
+    if (!this.options.lazy) {
+      throw new Error('Database not initialized. Call init() first.');
+    }
+    await this.init();
+  }
+
+  private async open(): Promise<void> {
+    await this.connectWithRetry();
+
+    const migrations = this.config.migrations;
+    if (migrations && migrations.runOnInit !== false) {
+      try {
+        const applied = await new MigrationService(
+          this.migrationTarget(),
+          migrations,
+          this.logger
+        ).up();
+        if (applied.length > 0) {
+          this.logger?.info({
+            message: `Database '${this.displayName}' applied ${String(applied.length)} migration(s)`,
+          });
+        }
+      } catch (error) {
+        await this.close().catch(() => undefined);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Query/transaction view used by init-time migrations.
+   * Bypasses ensureOpen(), which would otherwise wait for the open in progress.
+   */
+  private migrationTarget(): MigrationTarget {
+    return {
+      config: this.config,
+      query: <T>(sql: string, params?: unknown[]) => this.runQuery<T>(sql, params),
+      transaction: <T>(fn: (tx: ISqlTransaction) => Promise<T>, options?: SqlTransactionOptions) =>
+        this.runTransaction(fn, options ?? {}),
+    };
+  }
+
+  private async connectWithRetry(): Promise<void> {
+    const retry = this.config.retry;
+    const attempts = retry ? Math.max(1, retry.attempts ?? 5) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.connect();
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt >= attempts) {
+          throw new Error(
+            attempts > 1
+              ? `Failed to initialize database after ${String(attempts)} attempts: ${message}`
+              : `Failed to initialize database: ${message}`
+          );
+        }
+
+        const delay = backoffDelay(attempt, {
+          baseDelayMs: retry?.baseDelayMs ?? 500,
+          maxDelayMs: retry?.maxDelayMs ?? 30000,
+          jitter: retry?.jitter ?? 0.2,
+        });
+        this.logger?.warn({
+          message: `Database '${this.displayName}' connection attempt ${String(attempt)}/${String(attempts)} failed, retrying in ${String(delay)}ms`,
+          err: error,
+        });
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async connect(): Promise<void> {
+    this.adapter = this.createAdapter(this.config.type);
+
+    const connection = this.config.connection;
+    if (isReplicatedConnection(connection)) {
+      if (this.config.type !== 'postgresql' && this.config.type !== 'mysql') {
+        throw new Error('Read replicas are only supported for postgresql and mysql connections');
+      }
+
+      this.pool = await this.adapter.init({ ...this.config, connection: connection.primary });
+      this.replicaSelection = connection.selection ?? 'round-robin';
+      this.replicas = connection.replicas.map((target, index) => ({
+        name: `replica-${String(index)}`,
+        target,
+        pool: undefined,
+        healthy: false,
+        latencyMs: null,
+      }));
+      for (const replica of this.replicas) {
+        await this.connectReplica(replica);
+      }
+    } else {
+      this.pool = await this.adapter.init(this.config);
+    }
+
+    this.initialized = true;
+  }
+
+  private createAdapter(type: DatabaseConfig['type']): DatabaseAdapter {
     switch (type) {
       case 'postgresql':
         return new PostgresAdapter();
       case 'mysql':
         return new MySQLAdapter();
+      case 'sqlite':
+        return new SQLiteAdapter();
       case 'mongodb':
         return new MongoAdapter();
       case 'redis':
@@ -342,26 +1431,585 @@ export class DatabaseService implements IDatabaseService {
 
   /**
    * Execute a database query
+   * With read replicas configured, read-only statements are routed to a healthy replica.
    */
-  public async query<T = unknown>(sql: string, params?: unknown[]): Promise<T> {
-    if (!this.initialized) {
-      throw new Error('Database not initialized. Call init() first.');
+  public async query<T = unknown>(sql: string | SqlFragment, params?: unknown[]): Promise<T> {
+    await this.ensureOpen();
+    const statement = resolveStatement(sql, params, this.sqlDialect());
+    const replica =
+      this.replicas.length > 0 && isReadOnlyQuery(statement.text) ? this.pickReplica() : undefined;
+    return this.runQuery<T>(statement.text, statement.params, replica);
+  }
+
+  /**
+   * Insert one row with dialect-correct placeholders (SQL connections only).
+   * PostgreSQL and SQLite return the row through RETURNING, MySQL reports LAST_INSERT_ID.
+   *
+   * @example
+   * const { rows, insertId } = await db.insert('users', { email: 'ada@example.com' });
+   */
+  public async insert<T = Record<string, unknown>>(
+    table: string,
+    row: Record<string, unknown>,
+    options: SqlWriteOptions = {}
+  ): Promise<SqlWriteResult<T>> {
+    return this.insertMany<T>(table, [row], options);
+  }
+
+  /**
+   * Insert several rows with the same columns in a single statement
+   */
+  public async insertMany<T = Record<string, unknown>>(
+    table: string,
+    rows: Record<string, unknown>[],
+    options: SqlWriteOptions = {}
+  ): Promise<SqlWriteResult<T>> {
+    const dialect = this.requireSqlDialect('insertMany');
+    if (rows.length === 0) {
+      return { rows: [], affectedRows: 0, insertId: null };
+    }
+    return this.write<T>(buildInsert(dialect, table, rows, options));
+  }
+
+  /**
+   * Update the rows matching `where`
+   *
+   * @example
+   * await db.update('users', { name: 'Ada' }, { id: 1 });
+   * await db.update('users', { active: false }, sql`last_login < ${cutoff}`);
+   */
+  public async update<T = Record<string, unknown>>(
+    table: string,
+    patch: Record<string, unknown>,
+    where: SqlWhere,
+    options: SqlWriteOptions = {}
+  ): Promise<SqlWriteResult<T>> {
+    const dialect = this.requireSqlDialect('update');
+    return this.write<T>(buildUpdate(dialect, table, patch, where, options));
+  }
+
+  /**
+   * Insert a row, or update the existing one on a unique key conflict
+   * (ON CONFLICT on PostgreSQL/SQLite, ON DUPLICATE KEY UPDATE on MySQL)
+   *
+   * @example
+   * await db.upsert('settings', { key: 'theme', value: 'dark' }, { conflict: ['key'] });
+   */
+  public async upsert<T = Record<string, unknown>>(
+    table: string,
+    row: Record<string, unknown>,
+    options: SqlUpsertOptions
+  ): Promise<SqlWriteResult<T>> {
+    const dialect = this.requireSqlDialect('upsert');
+    return this.write<T>(buildUpsert(dialect, table, row, options));
+  }
+
+  /**
+   * First matching row, or null
+   *
+   * @example
+   * const user = await db.selectOne<User>('users', { email });
+   * const latest = await db.selectOne<Order>(sql`SELECT * FROM orders ORDER BY id DESC LIMIT 1`);
+   */
+  public async selectOne<T = Record<string, unknown>>(
+    tableOrQuery: string | SqlFragment,
+    where?: SqlWhere,
+    options?: SqlSelectOptions
+  ): Promise<T | null> {
+    const dialect = this.requireSqlDialect('selectOne');
+    const statement =
+      typeof tableOrQuery === 'string'
+        ? buildSelectOne(dialect, tableOrQuery, where, options)
+        : compileSql(tableOrQuery, dialect);
+
+    const rows = await this.query(statement.text, statement.params);
+    return Array.isArray(rows) ? ((rows[0] as T | undefined) ?? null) : null;
+  }
+
+  /**
+   * Stream a large result set row by row (or in batches with `batches: true`)
+   * - PostgreSQL: server-side cursor, `batchSize` rows per FETCH
+   * - MySQL: streaming query
+   * - SQLite: statement iterator
+   * - MongoDB: find cursor, called as `stream(collection, filter, options)`
+   * Breaking out of the loop releases the connection / closes the cursor.
+   *
+   * @example
+   * for await (const row of db.stream<User>('SELECT * FROM users', [], { batchSize: 500 })) {
+   *   await exportRow(row);
+   * }
+   *
+   * for await (const docs of mongo.stream('events', { type: 'click' }, { batches: true })) {
+   *   await bulkIndex(docs);
+   * }
+   */
+  public async *stream<T = Record<string, unknown>>(
+    source: string | SqlFragment,
+    args?: unknown[] | Record<string, unknown>,
+    options: StreamOptions | MongoStreamOptions = {}
+  ): AsyncGenerator<T | T[]> {
+    await this.ensureOpen();
+    const adapter = this.adapter!;
+    const batchSize = Math.max(1, options.batchSize ?? 1000);
+
+    let batches: AsyncGenerator<unknown[]>;
+    let statement: { text: string; params: unknown[] | undefined } | null = null;
+
+    if (adapter.find && typeof source === 'string') {
+      const filter = Array.isArray(args) ? {} : (args ?? {});
+      batches = adapter.find(this.pool, source, filter, { ...options, batchSize });
+    } else if (adapter.stream) {
+      this.assertNoSqliteTransaction('stream');
+      statement = resolveStatement(
+        source,
+        Array.isArray(args) ? args : undefined,
+        this.sqlDialect()
+      );
+      const replica =
+        this.replicas.length > 0 && isReadOnlyQuery(statement.text)
+          ? this.pickReplica()
+          : undefined;
+      batches = adapter.stream(
+        replica ? replica.pool : this.pool,
+        statement.text,
+        statement.params,
+        batchSize
+      );
+    } else {
+      throw new Error('stream() is only available for SQL and MongoDB connections');
+    }
+
+    // Instrumented up to the first batch: the time spent by the consumer is not query time
+    const start = performance.now();
+    let recorded = false;
+    const record = (error?: unknown): void => {
+      if (statement && !recorded) {
+        recorded = true;
+        this.recordQuery(statement.text, performance.now() - start, false, error);
+      }
+    };
+
+    try {
+      for await (const batch of batches) {
+        record();
+        if (options.batches) {
+          yield batch as T[];
+        } else {
+          for (const row of batch) {
+            yield row as T;
+          }
+        }
+      }
+    } catch (error) {
+      record(error);
+      throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      record();
+    }
+  }
+
+  /**
+   * Typed collection of the configured MongoDB database
+   *
+   * @example
+   * const users = await mongo.collection<User>('users');
+   * const admin = await users.findOne({ role: 'admin' });
+   */
+  public async collection<T = Record<string, unknown>>(name: string): Promise<IMongoCollection<T>> {
+    await this.ensureOpen();
+    if (!this.adapter?.collection) {
+      throw new Error('collection() is only available for MongoDB connections');
+    }
+    return this.adapter.collection(this.pool, name) as IMongoCollection<T>;
+  }
+
+  /**
+   * Run a MongoDB multi-document transaction
+   * The callback may be retried by the driver on transient transaction errors.
+   *
+   * @example
+   * await mongo.withSession(async (session) => {
+   *   const accounts = await mongo.collection<Account>('accounts');
+   *   await accounts.updateOne({ _id: from }, { $inc: { balance: -amount } }, { session });
+   *   await accounts.updateOne({ _id: to }, { $inc: { balance: amount } }, { session });
+   * });
+   */
+  public async withSession<T>(
+    fn: (session: IMongoSession) => Promise<T>,
+    options: MongoTransactionOptions = {}
+  ): Promise<T> {
+    await this.ensureOpen();
+    if (!this.adapter?.withSession) {
+      throw new Error('withSession() is only available for MongoDB connections');
+    }
+    return this.adapter.withSession(
+      this.pool,
+      async (session) => fn(session as IMongoSession),
+      options
+    );
+  }
+
+  private sqlDialect(): SqlDialect | null {
+    const type = this.config.type;
+    return type === 'postgresql' || type === 'mysql' || type === 'sqlite' ? type : null;
+  }
+
+  private requireSqlDialect(method: string): SqlDialect {
+    const dialect = this.sqlDialect();
+    if (!dialect) {
+      throw new Error(`${method}() is only available for SQL connections`);
+    }
+    return dialect;
+  }
+
+  /**
+   * Run a builder statement on the primary and normalize the driver result
+   */
+  private async write<T>(statement: CompiledSql): Promise<SqlWriteResult<T>> {
+    await this.ensureOpen();
+    const result = await this.runQuery<unknown>(statement.text, statement.params);
+
+    if (Array.isArray(result)) {
+      return { rows: result as T[], affectedRows: result.length, insertId: null };
     }
 
+    // MySQL ResultSetHeader
+    if (isObject(result) && 'affectedRows' in result) {
+      const affectedRows = result['affectedRows'];
+      const insertId = result['insertId'];
+      return {
+        rows: [],
+        affectedRows: typeof affectedRows === 'number' ? affectedRows : 0,
+        insertId:
+          (typeof insertId === 'number' || typeof insertId === 'string') && insertId !== 0
+            ? insertId
+            : null,
+      };
+    }
+
+    // better-sqlite3 RunResult; lastInsertRowid keeps the previous insert after an UPDATE or DELETE
+    if (isObject(result) && 'changes' in result) {
+      const changes = result['changes'];
+      const rowid = result['lastInsertRowid'];
+      const inserted =
+        typeof changes === 'number' && changes > 0 && /^\s*insert\b/i.test(statement.text);
+      return {
+        rows: [],
+        affectedRows: typeof changes === 'number' ? changes : 0,
+        insertId:
+          inserted && (typeof rowid === 'number' || typeof rowid === 'bigint')
+            ? Number.isSafeInteger(Number(rowid))
+              ? Number(rowid)
+              : String(rowid)
+            : null,
+      };
+    }
+
+    return { rows: [], affectedRows: 0, insertId: null };
+  }
+
+  /**
+   * Query executor bound to the primary, bypassing read routing
+   *
+   * @example
+   * await db.query('UPDATE users SET name = $1 WHERE id = $2', ['Ada', 1]);
+   * const [user] = await db.primary().query('SELECT * FROM users WHERE id = $1', [1]);
+   */
+  public primary(): ISqlExecutor {
+    return {
+      query: async <T>(sql: string | SqlFragment, params?: unknown[]): Promise<T> => {
+        await this.ensureOpen();
+        const statement = resolveStatement(sql, params, this.sqlDialect());
+        return this.runQuery<T>(statement.text, statement.params);
+      },
+    };
+  }
+
+  /**
+   * Query executor that runs every statement on a replica,
+   * falling back to the primary when no replica is healthy
+   */
+  public replica(): ISqlExecutor {
+    return {
+      query: async <T>(sql: string | SqlFragment, params?: unknown[]): Promise<T> => {
+        await this.ensureOpen();
+        const statement = resolveStatement(sql, params, this.sqlDialect());
+        return this.runQuery<T>(statement.text, statement.params, this.pickReplica());
+      },
+    };
+  }
+
+  /**
+   * Ping every read replica.
+   * Failing replicas stop receiving reads until a later check succeeds.
+   */
+  public async checkReplicas(): Promise<ReplicaStatus[]> {
+    await this.ensureOpen();
+
+    await Promise.all(
+      this.replicas.map(async (replica) => {
+        if (replica.pool === undefined) {
+          await this.connectReplica(replica);
+          return;
+        }
+
+        const start = performance.now();
+        try {
+          await this.adapter!.query(replica.pool, 'SELECT 1');
+          this.recordReplicaLatency(replica, performance.now() - start);
+          if (!replica.healthy) {
+            this.logger?.info({
+              message: `Replica '${replica.name}' of database '${this.displayName}' is back in rotation`,
+            });
+          }
+          replica.healthy = true;
+        } catch (error) {
+          if (replica.healthy) {
+            this.logger?.warn({
+              message: `Evicting replica '${replica.name}' of database '${this.displayName}': ${error instanceof Error ? error.message : String(error)}`,
+            });
+          }
+          replica.healthy = false;
+        }
+      })
+    );
+
+    return this.replicas.map(({ name, healthy, latencyMs }) => ({ name, healthy, latencyMs }));
+  }
+
+  private get displayName(): string {
+    return this.config.name ?? this.config.type;
+  }
+
+  private async runQuery<T>(sql: string, params?: unknown[], replica?: ReplicaPool): Promise<T> {
     try {
-      return await this.adapter!.query<T>(this.pool, sql, params);
+      this.assertNoSqliteTransaction('query');
+      return await this.instrument(sql, false, async () => {
+        if (!replica) {
+          return this.adapter!.query<T>(this.pool, sql, params);
+        }
+        const start = performance.now();
+        const result = await this.adapter!.query<T>(replica.pool, sql, params);
+        this.recordReplicaLatency(replica, performance.now() - start);
+        return result;
+      });
     } catch (error) {
       throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * SQLite has a single connection, held by the transaction until it ends:
+   * a call on the database from inside the callback would wait for it forever
+   */
+  private assertNoSqliteTransaction(method: string): void {
+    if (this.config.type === 'sqlite' && this.transactionScope.getStore()) {
+      throw new Error(
+        `db.${method}() cannot run inside a SQLite transaction, use tx.query() or tx.transaction() instead`
+      );
+    }
+  }
+
+  private async connectReplica(replica: ReplicaPool): Promise<void> {
+    try {
+      replica.pool = await this.adapter!.init({ ...this.config, connection: replica.target });
+      replica.healthy = true;
+    } catch (error) {
+      replica.healthy = false;
+      this.logger?.warn({
+        message: `Replica '${replica.name}' of database '${this.displayName}' is unavailable: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
+  private pickReplica(): ReplicaPool | undefined {
+    const healthy = this.replicas.filter((replica) => replica.healthy);
+    if (healthy.length === 0) {
+      return undefined;
+    }
+
+    if (this.replicaSelection === 'least-latency') {
+      return healthy.reduce((best, replica) =>
+        (replica.latencyMs ?? 0) < (best.latencyMs ?? 0) ? replica : best
+      );
+    }
+
+    const replica = healthy[this.nextReplica % healthy.length];
+    this.nextReplica = (this.nextReplica + 1) % healthy.length;
+    return replica;
+  }
+
+  private recordReplicaLatency(replica: ReplicaPool, durationMs: number): void {
+    replica.latencyMs =
+      replica.latencyMs === null
+        ? durationMs
+        : replica.latencyMs + (durationMs - replica.latencyMs) * REPLICA_LATENCY_SMOOTHING;
+  }
+
+  /**
+   * Time a query, update the connection counters, log slow queries and notify onQuery
+   */
+  private async instrument<T>(
+    sql: string,
+    inTransaction: boolean,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const start = performance.now();
+    try {
+      const result = await run();
+      this.recordQuery(sql, performance.now() - start, inTransaction);
+      return result;
+    } catch (error) {
+      this.recordQuery(sql, performance.now() - start, inTransaction, error);
+      throw error;
+    }
+  }
+
+  private recordQuery(
+    sql: string,
+    durationMs: number,
+    inTransaction: boolean,
+    error?: unknown
+  ): void {
+    const success = error === undefined;
+    const threshold = this.config.slowQueryThresholdMs;
+    const slow = threshold !== undefined && durationMs >= threshold;
+    this.metrics.record(durationMs, success, slow);
+
+    if (slow) {
+      this.logger?.warn({
+        message: `Slow query on database '${this.displayName}' (${durationMs.toFixed(1)}ms)`,
+        database: this.config.name,
+        durationMs: Math.round(durationMs),
+        sql: redactSql(sql),
+      });
+    }
+
+    if (this.config.onQuery) {
+      try {
+        this.config.onQuery({
+          database: this.config.name,
+          type: this.config.type,
+          sql,
+          durationMs,
+          success,
+          slow,
+          inTransaction,
+          ...(!success && { error }),
+        });
+      } catch {
+        // Instrumentation hooks must never break queries
+      }
+    }
+  }
+
+  /**
+   * Query counters and latency percentiles for this connection
+   *
+   * @example
+   * const { count, errors, latencyMs } = db.stats();
+   * console.log(`p95: ${latencyMs.p95}ms over ${count} queries`);
+   */
+  public stats(): DatabaseQueryStats {
+    return this.metrics.snapshot();
+  }
+
+  /**
+   * Run a callback inside a SQL transaction (PostgreSQL, MySQL, SQLite only)
+   * Commits when the callback resolves, rolls back when it throws and
+   * always releases the connection back to the pool.
+   * Use `tx.transaction()` inside the callback for nested savepoints.
+   *
+   * @example
+   * await db.transaction(async (tx) => {
+   *   await tx.query('UPDATE accounts SET balance = balance - $1 WHERE id = $2', [100, from]);
+   *   await tx.query('UPDATE accounts SET balance = balance + $1 WHERE id = $2', [100, to]);
+   * }, { isolationLevel: 'serializable' });
+   */
+  public async transaction<T>(
+    fn: (tx: ISqlTransaction) => Promise<T>,
+    options: SqlTransactionOptions = {}
+  ): Promise<T> {
+    await this.ensureOpen();
+    return this.runTransaction(fn, options);
+  }
+
+  private async runTransaction<T>(
+    fn: (tx: ISqlTransaction) => Promise<T>,
+    options: SqlTransactionOptions
+  ): Promise<T> {
+    const adapter = this.adapter;
+    if (!adapter?.openSession || !adapter.beginStatements) {
+      throw new Error('transaction() is only available for SQL connections');
+    }
+
+    this.assertNoSqliteTransaction('transaction');
+    const beginStatements = adapter.beginStatements(options);
+    const session = await adapter.openSession(this.pool);
+    const state: TransactionState = {
+      completed: false,
+      savepoints: 0,
+      dialect: this.config.type as SqlDialect,
+      instrument: (sql, run) => this.instrument(sql, true, run),
+    };
+    let destroy = false;
+
+    try {
+      for (const statement of beginStatements) {
+        await session.exec(statement);
+      }
+      const tx = new SqlTransaction(session, state);
+      const result = await this.transactionScope.run(true, () => fn(tx));
+      await session.exec('COMMIT');
+      return result;
+    } catch (error) {
+      try {
+        await session.exec('ROLLBACK');
+      } catch {
+        // The connection is in an unknown state, do not return it to the pool
+        destroy = true;
+      }
+      throw error;
+    } finally {
+      state.completed = true;
+      session.release(destroy);
+    }
+  }
+
+  /**
+   * Schema migration runner for this connection (PostgreSQL, MySQL, SQLite only)
+   * Requires `migrations` in the database config.
+   *
+   * @example
+   * await db.migrate.up();
+   * await db.migrate.up({ dryRun: true });
+   * await db.migrate.down(2);
+   * const status = await db.migrate.status();
+   */
+  public get migrate(): IMigrationRunner {
+    if (!this.config.migrations) {
+      throw new Error('migrate requires a "migrations" option in the database config');
+    }
+    const db = this.asSql();
+    const primary = this.primary();
+    // Pinned to the primary: status() and dry runs must not read a lagging replica
+    this.migrationRunner ??= new MigrationService(
+      {
+        config: db.config,
+        query: <T>(sql: string, params?: unknown[]): Promise<T> => primary.query<T>(sql, params),
+        transaction: db.transaction.bind(db),
+      },
+      this.config.migrations,
+      this.logger
+    );
+    return this.migrationRunner;
+  }
+
   /**
    * Get a database client from the pool
    */
   public async getClient(): Promise<unknown> {
-    if (!this.initialized) {
-      throw new Error('Database not initialized. Call init() first.');
-    }
+    await this.ensureOpen();
 
     return await this.adapter!.getClient(this.pool);
   }
@@ -375,9 +2023,7 @@ export class DatabaseService implements IDatabaseService {
    * const value = await db.redis('GET', 'key');
    */
   public async redis(...args: (string | number | Buffer)[]): Promise<unknown> {
-    if (!this.initialized) {
-      throw new Error('Database not initialized. Call init() first.');
-    }
+    await this.ensureOpen();
 
     if (this.config.type !== 'redis') {
       throw new Error('redis() method is only available for Redis connections');
@@ -397,13 +2043,204 @@ export class DatabaseService implements IDatabaseService {
   }
 
   /**
-   * Returns this service typed as a SQL database (PostgreSQL or MySQL).
-   * Throws at runtime if the configured type is not 'postgresql' or 'mysql'.
+   * Publish a JSON-serialized message on a Redis channel
+   *
+   * @example
+   * await db.publish('user:invalidate', { id: 42 });
+   */
+  public async publish(channel: string, message: unknown): Promise<number> {
+    const receivers = await this.redis('PUBLISH', channel, JSON.stringify(message ?? null));
+    return Number(receivers);
+  }
+
+  /**
+   * Subscribe to a Redis channel or pattern on a dedicated subscriber connection
+   *
+   * @example
+   * const stop = await db.subscribe<{ id: number }>('user:invalidate', ({ id }) => cache.del(`user:${id}`));
+   * await db.subscribe('orders:*', (order, channel) => console.log(channel, order));
+   * await stop();
+   */
+  public async subscribe<T = unknown>(
+    channel: string,
+    handler: RedisMessageHandler<T>
+  ): Promise<() => Promise<void>> {
+    await this.ensureOpen();
+    if (this.config.type !== 'redis') {
+      throw new Error('subscribe() is only available for Redis connections');
+    }
+
+    const subscriber = await this.getSubscriber();
+    let subscription = this.subscriptions.get(channel);
+    if (!subscription) {
+      subscription = {
+        handlers: new Set(),
+        listener: (message, actual): void => {
+          this.dispatch(channel, message, actual);
+        },
+      };
+      this.subscriptions.set(channel, subscription);
+      try {
+        await this.listen(subscriber, channel, subscription.listener);
+      } catch (error) {
+        this.subscriptions.delete(channel);
+        throw new Error(
+          `Redis subscribe failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const registered = handler as RedisMessageHandler;
+    subscription.handlers.add(registered);
+    return async () => this.unsubscribe(channel, registered);
+  }
+
+  /**
+   * Remove a handler, every handler of a channel, or all subscriptions
+   */
+  public async unsubscribe(channel?: string, handler?: RedisMessageHandler<never>): Promise<void> {
+    const channels = channel === undefined ? Array.from(this.subscriptions.keys()) : [channel];
+    const subscriber = this.subscriber ? await this.subscriber.catch(() => null) : null;
+
+    for (const name of channels) {
+      const subscription = this.subscriptions.get(name);
+      if (!subscription) {
+        continue;
+      }
+      if (handler) {
+        subscription.handlers.delete(handler as RedisMessageHandler);
+        if (subscription.handlers.size > 0) {
+          continue;
+        }
+      }
+
+      this.subscriptions.delete(name);
+      if (subscriber) {
+        await (isRedisPattern(name)
+          ? subscriber.pUnsubscribe(name, subscription.listener)
+          : subscriber.unsubscribe(name, subscription.listener));
+      }
+    }
+  }
+
+  private getSubscriber(): Promise<RedisSubscriberLike> {
+    if (!this.subscriber) {
+      const adapter = this.adapter;
+      if (!adapter?.subscriber) {
+        throw new Error('Redis adapter does not support subscriptions');
+      }
+
+      const opening = adapter.subscriber(this.pool).then((client) => {
+        if (!isRedisSubscriberLike(client)) {
+          throw new Error('Invalid Redis subscriber client');
+        }
+        client.on('error', (err: unknown) => {
+          this.logger?.warn({
+            message: `Redis subscriber for '${this.displayName}' failed`,
+            err,
+          });
+        });
+        // 'ready' fires again after every reconnect
+        client.on('ready', () => {
+          void this.resubscribe(client);
+        });
+        return client;
+      });
+      opening.catch(() => {
+        if (this.subscriber === opening) {
+          this.subscriber = null;
+        }
+      });
+      this.subscriber = opening;
+    }
+    return this.subscriber;
+  }
+
+  private async listen(
+    subscriber: RedisSubscriberLike,
+    channel: string,
+    listener: RedisListener
+  ): Promise<void> {
+    await (isRedisPattern(channel)
+      ? subscriber.pSubscribe(channel, listener)
+      : subscriber.subscribe(channel, listener));
+  }
+
+  private async resubscribe(subscriber: RedisSubscriberLike): Promise<void> {
+    if (this.subscriptions.size === 0) {
+      return;
+    }
+
+    for (const [channel, subscription] of this.subscriptions) {
+      try {
+        await this.listen(subscriber, channel, subscription.listener);
+      } catch (err) {
+        this.logger?.warn({
+          message: `Failed to resubscribe to Redis channel '${channel}'`,
+          err,
+        });
+      }
+    }
+    this.logger?.info({
+      message: `Resubscribed to ${String(this.subscriptions.size)} Redis channel(s) on '${this.displayName}'`,
+    });
+  }
+
+  private dispatch(channel: string, raw: string, actual: string): void {
+    const subscription = this.subscriptions.get(channel);
+    if (!subscription) {
+      return;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      message = raw;
+    }
+
+    for (const handler of subscription.handlers) {
+      void (async (): Promise<void> => {
+        try {
+          await handler(message, actual);
+        } catch (err) {
+          this.logger?.warn({
+            message: `Redis subscription handler for '${channel}' failed`,
+            err,
+          });
+        }
+      })();
+    }
+  }
+
+  private async closeSubscriber(): Promise<void> {
+    const opening = this.subscriber;
+    this.subscriber = null;
+    this.subscriptions.clear();
+    if (!opening) {
+      return;
+    }
+
+    const subscriber = await opening.catch(() => null);
+    if (subscriber?.close) {
+      await subscriber.close();
+    } else if (subscriber?.quit) {
+      await subscriber.quit();
+    }
+  }
+
+  /**
+   * Returns this service typed as a SQL database (PostgreSQL, MySQL or SQLite).
+   * Throws at runtime if the configured type is not 'postgresql', 'mysql' or 'sqlite'.
    */
   public asSql(): ISqlDatabase {
-    if (this.config.type !== 'postgresql' && this.config.type !== 'mysql') {
+    if (
+      this.config.type !== 'postgresql' &&
+      this.config.type !== 'mysql' &&
+      this.config.type !== 'sqlite'
+    ) {
       throw new Error(
-        `asSql() requires a postgresql or mysql connection, got '${this.config.type}'`
+        `asSql() requires a postgresql, mysql or sqlite connection, got '${this.config.type}'`
       );
     }
     return this as unknown as ISqlDatabase;
@@ -440,8 +2277,15 @@ export class DatabaseService implements IDatabaseService {
     }
 
     try {
+      await this.closeSubscriber();
+      await Promise.all(
+        this.replicas
+          .filter((replica) => replica.pool !== undefined)
+          .map((replica) => this.adapter!.close(replica.pool))
+      );
       await this.adapter!.close(this.pool);
 
+      this.replicas = [];
       this.initialized = false;
       this.pool = undefined;
       this.adapter = null;
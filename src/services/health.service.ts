@@ -22,6 +22,11 @@ export class HealthService {
     };
 
     for (const [name, db] of databases) {
+      if (db.isOpen && !db.isOpen()) {
+        (result.services.unopenedDatabases ??= []).push(name);
+        continue;
+      }
+
       try {
         if (db.config?.type === 'redis') {
           await db.redis?.('PING');
@@ -30,6 +35,8 @@ export class HealthService {
           await (client as { db: () => { command: (cmd: object) => Promise<unknown> } })
             .db()
             .command({ ping: 1 });
+        } else if (db.primary) {
+          await db.primary().query('SELECT 1');
         } else if (db.query) {
           await db.query('SELECT 1');
         }
@@ -38,6 +45,21 @@ export class HealthService {
         result.services.databases[name] = false;
         result.status = 'degraded';
       }
+
+      if (db.checkReplicas && result.services.databases[name]) {
+        try {
+          for (const replica of await db.checkReplicas()) {
+            result.services.databases[`${name}:${replica.name}`] = replica.healthy;
+          }
+        } catch {
+          result.status = 'degraded';
+        }
+      }
+
+      if (db.stats) {
+        result.metrics ??= { databases: {} };
+        result.metrics.databases[name] = db.stats();
+      }
     }
 
     for (const [name, socket] of sockets) {
@@ -65,7 +87,8 @@ export class HealthService {
       result.status = 'degraded';
     }
 
-    if (databases.size > 0 && !Object.values(result.services.databases).some((v) => v)) {
+    const openedDatabases = Object.values(result.services.databases);
+    if (openedDatabases.length > 0 && !openedDatabases.some((v) => v)) {
       result.status = 'unhealthy';
     }
 
@@ -25,6 +25,16 @@ export class LifecycleService {
     const errors: Array<{ service: string; error: unknown }> = [];
 
     if (databases.size > 0) {
+      // Stop pub/sub handlers first so no message is handled while connections close
+      const unsubscribeResults = await Promise.allSettled(
+        Array.from(databases.values()).map(async (db) => db.unsubscribe?.())
+      );
+      for (const result of unsubscribeResults) {
+        if (result.status === 'rejected') {
+          logger.warn({ message: 'Failed to drop Redis subscriptions', err: result.reason });
+        }
+      }
+
       logger.info({ message: `Closing ${databases.size} database connection(s)...` });
       const dbCloseResults = await Promise.allSettled(
         Array.from(databases.entries()).map(async ([name, db]) => {
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LockService } from './lock.service.js';
+import { KataxLockError } from '../errors.js';
+import type { ILoggerService, IRedisDatabase } from '../types.js';
+
+function createRedis(): { db: IRedisDatabase; data: Map<string, string> } {
+  const data = new Map<string, string>();
+  const redis = vi.fn(async (...args: (string | number | Buffer)[]) => {
+    const [, script = '', , lockKey = '', ...rest] = args.map(String);
+    if (script.includes('INCR')) {
+      const [fenceKey = '', token = ''] = rest;
+      if (data.has(lockKey)) return 0;
+      data.set(lockKey, token);
+      const fence = Number(data.get(fenceKey) ?? 0) + 1;
+      data.set(fenceKey, String(fence));
+      return fence;
+    }
+    const [token] = rest;
+    if (data.get(lockKey) !== token) return 0;
+    if (script.includes("'DEL'")) data.delete(lockKey);
+    return 1;
+  });
+
+  const db: IRedisDatabase = {
+    config: { type: 'redis', connection: 'redis://localhost:6379' },
+    init: async () => undefined,
+    getClient: async () => ({}),
+    redis,
+    publish: vi.fn(async () => 0),
+    subscribe: vi.fn(async () => async () => undefined),
+    unsubscribe: vi.fn(async () => undefined),
+    close: async () => undefined,
+  };
+  return { db, data };
+}
+
+describe('LockService', () => {
+  it('grants one holder at a time with growing fencing tokens', async () => {
+    const { db, data } = createRedis();
+    const locks = new LockService([db], { prefix: 'api' });
+
+    const first = await locks.acquire('report', { ttlMs: 1_000 });
+    expect(first).toMatchObject({ resource: 'report', fence: 1 });
+    expect(data.get('api:lock:{report}')).toBe(first?.token);
+
+    await expect(locks.acquire('report')).resolves.toBeNull();
+    await expect(first?.extend(2_000)).resolves.toBe(true);
+    await expect(first?.release()).resolves.toBe(true);
+    await expect(first?.release()).resolves.toBe(false);
+
+    const second = await locks.acquire('report');
+    expect(second?.fence).toBe(2);
+  });
+
+  it('runs withLock callbacks exclusively and releases afterwards', async () => {
+    const { db, data } = createRedis();
+    const locks = new LockService([db]);
+
+    await expect(
+      locks.withLock('job', async () => {
+        await expect(locks.withLock('job', () => 'nested')).rejects.toBeInstanceOf(KataxLockError);
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(data.has('lock:{job}')).toBe(false);
+
+    await expect(locks.withLock('job', (lock) => lock.fence)).resolves.toBe(2);
+  });
+
+  it('keeps the error of fn when releasing the lock also fails', async () => {
+    const { db } = createRedis();
+    const warn = vi.fn();
+    const locks = new LockService([db], {}, { warn } as unknown as ILoggerService);
+
+    await expect(
+      locks.withLock('job', () => {
+        vi.mocked(db.redis).mockRejectedValueOnce(new Error('connection lost'));
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(warn).toHaveBeenCalledWith({
+      message: "Failed to release lock 'job'",
+      err: expect.objectContaining({ message: 'Lock release failed: connection lost' }),
+    });
+  });
+
+  it('retries until the current holder releases', async () => {
+    const { db } = createRedis();
+    const locks = new LockService([db]);
+    const held = await locks.acquire('queue');
+    setTimeout(() => void held?.release(), 30);
+
+    const lock = await locks.acquire('queue', { retry: { attempts: 10, delayMs: 10, jitter: 0 } });
+    expect(lock?.fence).toBe(2);
+  });
+
+  it('needs a majority of instances and gives back partial locks', async () => {
+    const a = createRedis();
+    const b = createRedis();
+    const down = createRedis();
+    vi.mocked(down.db.redis).mockRejectedValue(new Error('connection refused'));
+
+    const quorum = new LockService([a.db, b.db, down.db]);
+    const lock = await quorum.acquire('payouts');
+    expect(lock).not.toBeNull();
+    await lock?.release();
+
+    b.data.set('lock:{payouts}', 'someone-else');
+    await expect(quorum.acquire('payouts')).resolves.toBeNull();
+    expect(a.data.has('lock:{payouts}')).toBe(false);
+
+    await expect(new LockService([down.db]).acquire('payouts')).rejects.toThrow(
+      'Lock acquire failed: connection refused'
+    );
+  });
+
+  it('rejects empty resources and keeps braces inside the hash tag', async () => {
+    const { db, data } = createRedis();
+    const locks = new LockService([db]);
+
+    await expect(locks.acquire('')).rejects.toThrow('Lock resource must not be empty');
+
+    const lock = await locks.acquire('}job{1%');
+    expect(data.get('lock:{%7Djob%7B1%25}')).toBe(lock?.token);
+    expect(data.get('lock:{%7Djob%7B1%25}:fence')).toBe('1');
+  });
+});
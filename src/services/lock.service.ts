@@ -0,0 +1,221 @@
+import { randomUUID } from 'crypto';
+import { KataxLockError } from '../errors.js';
+import { backoffDelay, sleep } from '../utils/backoff.js';
+import { escapeHashTag } from '../utils/redis-cluster.js';
+import type {
+  ILoggerService,
+  IRedisDatabase,
+  LockAcquireOptions,
+  LockHandle,
+  LockOptions,
+} from '../types.js';
+
+/**
+ * Take the lock and bump the resource's fencing counter.
+ * KEYS: lock key, fence key. ARGV: token, ttl in ms. Returns the fence, or 0 when taken.
+ */
+const ACQUIRE_SCRIPT = `
+if redis.call('SET', KEYS[1], ARGV[1], 'NX', 'PX', ARGV[2]) then
+  return redis.call('INCR', KEYS[2])
+end
+return 0`;
+
+/**
+ * Delete the lock only if it still holds our token
+ */
+const RELEASE_SCRIPT =
+  "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end";
+
+/**
+ * Reset the ttl only if the lock still holds our token
+ */
+const EXTEND_SCRIPT =
+  "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('PEXPIRE', KEYS[1], ARGV[2]) else return 0 end";
+
+/** Redlock clock drift allowance: 1% of the ttl plus 2 ms */
+const CLOCK_DRIFT_FACTOR = 0.01;
+
+/**
+ * Distributed locks on one Redis connection, or Redlock-style quorum locks
+ * across several independent ones.
+ *
+ * Each lock holds a random token, so only its owner can release or extend it,
+ * and carries a fencing token: a per-resource counter that grows with every
+ * acquisition. Pass it to the protected resource so writes from a holder whose
+ * lock already expired can be rejected.
+ *
+ * @example
+ * const locks = katax.lock('cache');
+ * await locks.withLock('invoices:monthly', async (lock) => {
+ *   await generateInvoices({ fence: lock.fence });
+ * }, { ttlMs: 60_000 });
+ */
+export class LockService {
+  private readonly prefix: string;
+  private readonly quorum: number;
+
+  constructor(
+    private readonly instances: IRedisDatabase[],
+    options: LockOptions = {},
+    private readonly logger?: ILoggerService
+  ) {
+    if (instances.length === 0) {
+      throw new Error('LockService needs at least one Redis connection');
+    }
+    this.prefix = `${options.prefix ? `${options.prefix}:` : ''}lock:`;
+    this.quorum = Math.floor(instances.length / 2) + 1;
+  }
+
+  /**
+   * Try to take a lock. Resolves to null when it is still held by someone else
+   * after all retries.
+   *
+   * @example
+   * const lock = await locks.acquire('report', { ttlMs: 30_000, retry: { attempts: 5 } });
+   * if (lock) {
+   *   try { await buildReport(); } finally { await lock.release(); }
+   * }
+   */
+  public async acquire(
+    resource: string,
+    options: LockAcquireOptions = {}
+  ): Promise<LockHandle | null> {
+    const ttlMs = options.ttlMs ?? 10_000;
+    const attempts = options.retry?.attempts ?? 0;
+    const backoff = {
+      baseDelayMs: options.retry?.delayMs ?? 100,
+      maxDelayMs: options.retry?.maxDelayMs ?? 2_000,
+      jitter: options.retry?.jitter ?? 0.2,
+    };
+    const lockKey = this.lockKey(resource);
+    const fenceKey = `${lockKey}:fence`;
+
+    for (let attempt = 0; attempt <= attempts; attempt++) {
+      if (attempt > 0) {
+        await sleep(backoffDelay(attempt, backoff));
+      }
+
+      const token = randomUUID();
+      const startedAt = Date.now();
+      const fences = await this.onQuorum('acquire', (redis) =>
+        redis.redis('EVAL', ACQUIRE_SCRIPT, 2, lockKey, fenceKey, token, ttlMs)
+      );
+      const acquired = fences.filter((fence) => fence > 0);
+      const validityMs =
+        ttlMs - (Date.now() - startedAt) - Math.ceil(ttlMs * CLOCK_DRIFT_FACTOR) - 2;
+
+      if (acquired.length >= this.quorum && validityMs > 0) {
+        return this.handle(resource, token, Math.max(...acquired), Date.now() + validityMs);
+      }
+
+      // Partial quorum: give back what we took before retrying
+      if (acquired.length > 0) {
+        await this.releaseToken(lockKey, token);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Run `fn` while holding the lock, releasing it afterwards even if `fn` throws.
+   * Throws KataxLockError when the lock cannot be acquired.
+   *
+   * @example
+   * const total = await locks.withLock(`account:${id}`, async () => transfer(id, amount), {
+   *   ttlMs: 5_000,
+   *   retry: { attempts: 10, delayMs: 50 },
+   * });
+   */
+  public async withLock<T>(
+    resource: string,
+    fn: (lock: LockHandle) => Promise<T> | T,
+    options: LockAcquireOptions = {}
+  ): Promise<T> {
+    const lock = await this.acquire(resource, options);
+    if (!lock) {
+      throw new KataxLockError(`Lock "${resource}" is held by another process`, { resource });
+    }
+
+    try {
+      return await fn(lock);
+    } finally {
+      // A failed release must not hide the outcome of fn; the lock expires on its own
+      try {
+        await lock.release();
+      } catch (err) {
+        this.logger?.warn({ message: `Failed to release lock '${resource}'`, err });
+      }
+    }
+  }
+
+  private handle(resource: string, token: string, fence: number, expiresAt: number): LockHandle {
+    const lockKey = this.lockKey(resource);
+    const handle: LockHandle = {
+      resource,
+      token,
+      fence,
+      expiresAt,
+      release: async () => {
+        const released = await this.releaseToken(lockKey, token);
+        return released >= this.quorum;
+      },
+      extend: async (ttlMs = 10_000) => {
+        const startedAt = Date.now();
+        const extended = (
+          await this.onQuorum('extend', (redis) =>
+            redis.redis('EVAL', EXTEND_SCRIPT, 1, lockKey, token, ttlMs)
+          )
+        ).filter((reply) => reply > 0).length;
+        const validityMs =
+          ttlMs - (Date.now() - startedAt) - Math.ceil(ttlMs * CLOCK_DRIFT_FACTOR) - 2;
+        if (extended < this.quorum || validityMs <= 0) {
+          return false;
+        }
+        handle.expiresAt = Date.now() + validityMs;
+        return true;
+      },
+    };
+    return handle;
+  }
+
+  /**
+   * Compare-and-delete on every instance. Returns how many still held our token.
+   */
+  private async releaseToken(lockKey: string, token: string): Promise<number> {
+    const replies = await this.onQuorum('release', (redis) =>
+      redis.redis('EVAL', RELEASE_SCRIPT, 1, lockKey, token)
+    );
+    return replies.filter((reply) => reply > 0).length;
+  }
+
+  /**
+   * Run a command on every instance in parallel. An unreachable instance counts as
+   * a failed vote (0); the error is only thrown when no instance answered.
+   */
+  private async onQuorum(
+    operation: string,
+    run: (redis: IRedisDatabase) => Promise<unknown>
+  ): Promise<number[]> {
+    const results = await Promise.allSettled(this.instances.map(run));
+    const failure = results.find((result) => result.status === 'rejected');
+    if (failure && results.every((result) => result.status === 'rejected')) {
+      const error: unknown = failure.reason;
+      throw new Error(
+        `Lock ${operation} failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return results.map((result) => (result.status === 'fulfilled' ? Number(result.value) : 0));
+  }
+
+  /**
+   * `{resource}` is a hash tag, so the lock and its fence share a cluster slot.
+   * An empty `{}` is not one, hence the check.
+   */
+  private lockKey(resource: string): string {
+    if (resource === '') {
+      throw new Error('Lock resource must not be empty');
+    }
+    return `${this.prefix}{${escapeHashTag(resource)}}`;
+  }
+}
@@ -80,4 +80,26 @@ describe('LoggerService', () => {
     expect(send.mock.calls[0][0]).not.toHaveProperty('broadcast');
     expect(send.mock.calls[0][0]).not.toHaveProperty('room');
   });
+
+  it('sends child logs with their bindings through the parent transports', async () => {
+    const send = vi.fn(async () => undefined);
+    const logger = new LoggerService();
+    logger.setAppName('api');
+
+    const child = logger.child({ job: 'cleanup' }).child({ attempt: 2 });
+    logger.addTransport({ name: 'test', send });
+    child.error({ message: 'Job failed' });
+
+    await Promise.resolve();
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: 'Job failed',
+        job: 'cleanup',
+        attempt: 2,
+        level: 'error',
+        appName: 'api',
+      })
+    );
+  });
 });
@@ -52,6 +52,9 @@ export class LoggerService implements ILoggerService {
   private socketService: IWebSocketService | null = null;
   private transports: LogTransport[] = [];
   private appName?: string;
+  /** Logger this one was created from with child(); broadcasts and transports go through it */
+  private parent: LoggerService | null = null;
+  private bindings: Record<string, unknown> = {};
 
   constructor(
     config?: LoggerConfig,
@@ -132,6 +135,14 @@ export class LoggerService implements ILoggerService {
     room?: string,
     metadata?: Record<string, unknown>
   ): void {
+    if (this.parent) {
+      this.parent.broadcast(level, message, shouldBroadcast, room, {
+        ...this.bindings,
+        ...metadata,
+      });
+      return;
+    }
+
     if (!this.broadcastEnabled || !this.socketService || !shouldBroadcast) {
       return;
     }
@@ -238,6 +249,11 @@ export class LoggerService implements ILoggerService {
     data: Record<string, unknown>,
     config: LogConfig = {}
   ): void {
+    if (this.parent) {
+      this.parent.deliverToTransports(level, { ...this.bindings, ...data }, config);
+      return;
+    }
+
     const enriched = {
       ...data,
       level,
@@ -268,7 +284,15 @@ export class LoggerService implements ILoggerService {
 
   public child(bindings: Record<string, unknown>): ILoggerService {
     const childPinoLogger = this.logger.child(bindings);
-    return new LoggerService(undefined, childPinoLogger, this.broadcastEnabled, this.socketService);
+    const child = new LoggerService(
+      undefined,
+      childPinoLogger,
+      this.broadcastEnabled,
+      this.socketService
+    );
+    child.parent = this;
+    child.bindings = bindings;
+    return child;
   }
 
   public getPinoLogger(): PinoLogger {
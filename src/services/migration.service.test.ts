@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MigrationService, splitSqlStatements } from './migration.service.js';
+import type { ISqlDatabase, ISqlTransaction } from '../types.js';
+
+function createDatabaseMock(type: 'postgresql' | 'mysql' = 'postgresql'): {
+  db: ISqlDatabase;
+  executed: string[];
+  applied: Map<string, { version: string; name: string; applied_at: Date }>;
+} {
+  const executed: string[] = [];
+  const applied = new Map<string, { version: string; name: string; applied_at: Date }>();
+  let tableExists = false;
+
+  const query = async <T>(sql: string, params: unknown[] = []): Promise<T> => {
+    executed.push(sql);
+    if (sql.includes('information_schema.tables')) {
+      return (tableExists ? [{ exists: 1 }] : []) as T;
+    }
+    if (sql.startsWith('CREATE TABLE IF NOT EXISTS katax_migrations')) {
+      tableExists = true;
+    } else if (sql.startsWith('SELECT version, name, applied_at')) {
+      return Array.from(applied.values()) as T;
+    } else if (sql.startsWith('INSERT INTO katax_migrations')) {
+      const [version, name] = params as [string, string];
+      applied.set(version, { version, name, applied_at: new Date() });
+    } else if (sql.startsWith('DELETE FROM katax_migrations')) {
+      applied.delete(params[0] as string);
+    } else if (sql.startsWith('SELECT GET_LOCK')) {
+      return [{ acquired: 1 }] as T;
+    }
+    return [] as T;
+  };
+
+  const tx: ISqlTransaction = {
+    query,
+    transaction: async (fn) => fn(tx),
+  };
+
+  const db = {
+    config: { type, connection: '' },
+    init: async () => undefined,
+    query,
+    transaction: async <T>(fn: (t: ISqlTransaction) => Promise<T>) => fn(tx),
+    getClient: async () => ({}),
+    close: async () => undefined,
+  } as unknown as ISqlDatabase;
+
+  return { db, executed, applied };
+}
+
+describe('MigrationService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'katax-migrations-'));
+    writeFileSync(
+      join(dir, '001_create_users.up.sql'),
+      'CREATE TABLE users (id INT);\nINSERT INTO users VALUES (1);'
+    );
+    writeFileSync(join(dir, '001_create_users.down.sql'), 'DROP TABLE users;');
+    writeFileSync(join(dir, '002_add_email.up.sql'), 'ALTER TABLE users ADD email TEXT;');
+    writeFileSync(join(dir, 'README.md'), 'ignored');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies pending migrations in order under an advisory lock', async () => {
+    const { db, executed, applied } = createDatabaseMock();
+    const service = new MigrationService(db, { dir });
+
+    const result = await service.up();
+
+    expect(result.map((m) => m.version)).toEqual(['001', '002']);
+    expect(Array.from(applied.keys())).toEqual(['001', '002']);
+    expect(executed[0]).toBe('SELECT pg_advisory_xact_lock(hashtext($1))');
+    expect(executed).toContain('CREATE TABLE users (id INT)');
+    expect(executed).toContain('INSERT INTO users VALUES (1)');
+    expect(executed.indexOf('CREATE TABLE users (id INT)')).toBeLessThan(
+      executed.indexOf('ALTER TABLE users ADD email TEXT')
+    );
+
+    await expect(service.up()).resolves.toEqual([]);
+  });
+
+  it('reports pending migrations without executing them in dry-run mode', async () => {
+    const { db, executed, applied } = createDatabaseMock();
+    const service = new MigrationService(db, { dir });
+
+    const result = await service.up({ dryRun: true });
+
+    expect(result.map((m) => m.name)).toEqual(['create_users', 'add_email']);
+    expect(applied.size).toBe(0);
+    expect(executed.some((sql) => sql.startsWith('CREATE TABLE'))).toBe(false);
+  });
+
+  it('reverts the latest migrations and reports status', async () => {
+    const { db, executed } = createDatabaseMock('mysql');
+    writeFileSync(join(dir, '002_add_email.down.sql'), 'ALTER TABLE users DROP email;');
+    const service = new MigrationService(db, { dir });
+
+    await service.up();
+    const reverted = await service.down(2);
+
+    expect(reverted.map((m) => m.version)).toEqual(['002', '001']);
+    expect(executed).toContain('SELECT RELEASE_LOCK(?)');
+    expect(executed.indexOf('ALTER TABLE users DROP email')).toBeLessThan(
+      executed.indexOf('DROP TABLE users')
+    );
+
+    const status = await service.status();
+    expect(status.map((m) => [m.version, m.applied])).toEqual([
+      ['001', false],
+      ['002', false],
+    ]);
+  });
+
+  it('fails to revert migrations without a down script', async () => {
+    const { db } = createDatabaseMock();
+    const service = new MigrationService(db, { dir });
+
+    await service.up();
+
+    await expect(service.down(1)).rejects.toThrow('Migration 002_add_email has no down script');
+  });
+});
+
+describe('splitSqlStatements', () => {
+  it('ignores semicolons inside quotes, comments and dollar-quoted bodies', () => {
+    const sql = [
+      "INSERT INTO t VALUES ('a;b');",
+      '-- comment; here',
+      'CREATE FUNCTION f() RETURNS void AS $$ BEGIN PERFORM 1; END; $$ LANGUAGE plpgsql;',
+      '/* block; */ SELECT 1',
+    ].join('\n');
+
+    expect(splitSqlStatements(sql)).toEqual([
+      "INSERT INTO t VALUES ('a;b')",
+      '-- comment; here\nCREATE FUNCTION f() RETURNS void AS $$ BEGIN PERFORM 1; END; $$ LANGUAGE plpgsql',
+      '/* block; */ SELECT 1',
+    ]);
+  });
+});
@@ -0,0 +1,389 @@
+import { readdir, readFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  ILoggerService,
+  IMigrationRunner,
+  ISqlDatabase,
+  ISqlTransaction,
+  MigrationConfig,
+  MigrationModule,
+  MigrationRunOptions,
+  MigrationStatus,
+} from '../types.js';
+
+const MIGRATION_FILE_PATTERN = /^(\d+)[_-](.+?)(\.up\.sql|\.down\.sql|\.ts|\.mts|\.js|\.mjs)$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+type MigrationStep = (tx: ISqlTransaction) => Promise<void>;
+
+/**
+ * The parts of a SQL database the migration runner needs
+ */
+export type MigrationTarget = Pick<ISqlDatabase, 'config' | 'query' | 'transaction'>;
+
+interface MigrationFile {
+  version: string;
+  name: string;
+  up?: MigrationStep;
+  down?: MigrationStep;
+}
+
+interface AppliedRow {
+  version: string;
+  name: string;
+  applied_at: Date | string;
+}
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Split a SQL script into individual statements.
+ * Semicolons inside quotes, comments and PostgreSQL dollar-quoted bodies are ignored.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  const push = (end: number): void => {
+    const statement = sql.slice(start, end).trim();
+    if (statement.length > 0) {
+      statements.push(statement);
+    }
+  };
+
+  while (i < sql.length) {
+    const char = sql.charAt(i);
+    const next = sql.charAt(i + 1);
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === "'" || char === '"' || char === '`') {
+      i++;
+      while (i < sql.length && sql.charAt(i) !== char) {
+        i += sql.charAt(i) === '\\' ? 2 : 1;
+      }
+      i++;
+    } else if (char === '$') {
+      const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i))?.[0];
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length);
+        i = end === -1 ? sql.length : end + tag.length;
+      } else {
+        i++;
+      }
+    } else if (char === ';') {
+      push(i);
+      i++;
+      start = i;
+    } else {
+      i++;
+    }
+  }
+
+  push(sql.length);
+  return statements;
+}
+
+function sqlStep(script: string): MigrationStep {
+  return async (tx) => {
+    for (const statement of splitSqlStatements(script)) {
+      await tx.query(statement);
+    }
+  };
+}
+
+/**
+ * Migration service
+ * Applies versioned SQL / module migrations and records them in a tracking table.
+ * Runs through the regular `db.transaction()` query path, so it works on any
+ * PostgreSQL, MySQL or SQLite connection managed by Katax.
+ *
+ * Only one replica migrates at a time:
+ * - PostgreSQL: `pg_advisory_xact_lock`, released when the transaction ends
+ * - MySQL: `GET_LOCK` / `RELEASE_LOCK` on the migration connection
+ * - SQLite: the database file lock taken by the write transaction
+ *
+ * On PostgreSQL the whole run is atomic. MySQL commits DDL implicitly, so a
+ * failing migration leaves earlier statements of that run applied.
+ *
+ * @example
+ * const migrations = new MigrationService(db.asSql(), { dir: './migrations' }, katax.logger);
+ * await migrations.up();
+ * await migrations.down(1);
+ * const status = await migrations.status();
+ */
+export class MigrationService implements IMigrationRunner {
+  private readonly dir: string;
+  private readonly table: string;
+  private readonly lockTimeoutMs: number;
+
+  constructor(
+    private readonly db: MigrationTarget,
+    config: MigrationConfig,
+    private readonly logger?: ILoggerService
+  ) {
+    const table = config.table ?? 'katax_migrations';
+    if (!IDENTIFIER_PATTERN.test(table)) {
+      throw new Error(`Invalid migrations table name "${table}"`);
+    }
+
+    this.dir = resolve(config.dir);
+    this.table = table;
+    this.lockTimeoutMs = config.lockTimeoutMs ?? 60000;
+  }
+
+  private get isPostgres(): boolean {
+    return this.db.config.type === 'postgresql';
+  }
+
+  private placeholder(index: number): string {
+    return this.isPostgres ? `$${String(index)}` : '?';
+  }
+
+  /**
+   * Apply all pending migrations in version order
+   */
+  public async up(options: MigrationRunOptions = {}): Promise<MigrationStatus[]> {
+    const files = await this.loadFiles();
+
+    if (options.dryRun) {
+      const applied = await this.readApplied(this.db);
+      const pending = files.filter((file) => !applied.has(file.version));
+      for (const file of pending) {
+        this.logger?.info({
+          message: `[dry-run] Would apply migration ${file.version}_${file.name}`,
+        });
+      }
+      return pending.map((file) => this.toStatus(file, false, null));
+    }
+
+    return this.withLock(async (tx) => {
+      const applied = await this.readApplied(tx);
+      const result: MigrationStatus[] = [];
+
+      for (const file of files) {
+        if (applied.has(file.version)) {
+          continue;
+        }
+        if (!file.up) {
+          throw new Error(`Migration ${file.version}_${file.name} has no up script`);
+        }
+
+        this.logger?.info({ message: `Applying migration ${file.version}_${file.name}` });
+        await file.up(tx);
+        await tx.query(
+          `INSERT INTO ${this.table} (version, name) VALUES (${this.placeholder(1)}, ${this.placeholder(2)})`,
+          [file.version, file.name]
+        );
+        result.push(this.toStatus(file, true, new Date()));
+      }
+
+      if (result.length === 0) {
+        this.logger?.debug({ message: 'No pending migrations' });
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Revert the last `steps` applied migrations, newest first
+   */
+  public async down(steps = 1, options: MigrationRunOptions = {}): Promise<MigrationStatus[]> {
+    const files = new Map((await this.loadFiles()).map((file) => [file.version, file]));
+
+    const pick = (applied: Map<string, AppliedRow>): AppliedRow[] =>
+      Array.from(applied.values())
+        .sort((a, b) => compareVersions(b.version, a.version))
+        .slice(0, Math.max(0, steps));
+
+    if (options.dryRun) {
+      const targets = pick(await this.readApplied(this.db));
+      for (const row of targets) {
+        this.logger?.info({
+          message: `[dry-run] Would revert migration ${row.version}_${row.name}`,
+        });
+      }
+      return targets.map((row) => this.toStatus(row, true, new Date(row.applied_at)));
+    }
+
+    return this.withLock(async (tx) => {
+      const result: MigrationStatus[] = [];
+
+      for (const row of pick(await this.readApplied(tx))) {
+        const down = files.get(row.version)?.down;
+        if (!down) {
+          throw new Error(`Migration ${row.version}_${row.name} has no down script`);
+        }
+
+        this.logger?.info({ message: `Reverting migration ${row.version}_${row.name}` });
+        await down(tx);
+        await tx.query(`DELETE FROM ${this.table} WHERE version = ${this.placeholder(1)}`, [
+          row.version,
+        ]);
+        result.push(this.toStatus(row, false, null));
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * List migrations found on disk and in the tracking table
+   */
+  public async status(): Promise<MigrationStatus[]> {
+    const files = await this.loadFiles();
+    const applied = await this.readApplied(this.db);
+    const statuses = new Map<string, MigrationStatus>();
+
+    for (const file of files) {
+      const row = applied.get(file.version);
+      statuses.set(
+        file.version,
+        this.toStatus(file, row !== undefined, row ? new Date(row.applied_at) : null)
+      );
+    }
+    for (const row of applied.values()) {
+      if (!statuses.has(row.version)) {
+        statuses.set(row.version, this.toStatus(row, true, new Date(row.applied_at)));
+      }
+    }
+
+    return Array.from(statuses.values()).sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  private toStatus(
+    migration: { version: string; name: string },
+    applied: boolean,
+    appliedAt: Date | null
+  ): MigrationStatus {
+    return { version: migration.version, name: migration.name, applied, appliedAt };
+  }
+
+  /**
+   * Run `fn` in a transaction holding the cross-replica migration lock
+   */
+  private async withLock<T>(fn: (tx: ISqlTransaction) => Promise<T>): Promise<T> {
+    return this.db.transaction(async (tx) => {
+      if (this.isPostgres) {
+        await tx.query('SELECT pg_advisory_xact_lock(hashtext($1))', [this.table]);
+        await this.ensureTable(tx);
+        return fn(tx);
+      }
+
+      if (this.db.config.type === 'sqlite') {
+        await this.ensureTable(tx);
+        return fn(tx);
+      }
+
+      const rows = await tx.query<{ acquired: number | null }[]>(
+        'SELECT GET_LOCK(?, ?) AS acquired',
+        [this.table, Math.ceil(this.lockTimeoutMs / 1000)]
+      );
+      if (rows[0]?.acquired !== 1) {
+        throw new Error(`Timed out waiting for migration lock "${this.table}"`);
+      }
+
+      try {
+        await this.ensureTable(tx);
+        return await fn(tx);
+      } finally {
+        await tx.query('SELECT RELEASE_LOCK(?)', [this.table]);
+      }
+    });
+  }
+
+  private async ensureTable(tx: ISqlTransaction): Promise<void> {
+    await tx.query(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+        'version VARCHAR(255) PRIMARY KEY, ' +
+        'name VARCHAR(255) NOT NULL, ' +
+        'applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP)'
+    );
+  }
+
+  private tableExistsSql(): string {
+    switch (this.db.config.type) {
+      case 'postgresql':
+        return 'SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = $1';
+      case 'sqlite':
+        return "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?";
+      default:
+        return 'SELECT 1 FROM information_schema.tables WHERE table_schema = DATABASE() AND table_name = ?';
+    }
+  }
+
+  /**
+   * Read applied migrations. A missing tracking table means nothing was applied yet.
+   */
+  private async readApplied(
+    executor: Pick<ISqlTransaction, 'query'>
+  ): Promise<Map<string, AppliedRow>> {
+    const exists = await executor.query<unknown[]>(this.tableExistsSql(), [this.table]);
+    if (exists.length === 0) {
+      return new Map();
+    }
+
+    const rows = await executor.query<AppliedRow[]>(
+      `SELECT version, name, applied_at FROM ${this.table}`
+    );
+    return new Map(rows.map((row) => [row.version, row]));
+  }
+
+  /**
+   * Discover migration files and group them by version
+   */
+  private async loadFiles(): Promise<MigrationFile[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.dir);
+    } catch (error) {
+      throw new Error(
+        `Failed to read migrations directory "${this.dir}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const migrations = new Map<string, MigrationFile>();
+
+    for (const entry of entries.sort()) {
+      const match = MIGRATION_FILE_PATTERN.exec(entry);
+      if (!match || entry.endsWith('.d.ts')) {
+        continue;
+      }
+
+      const [, version = '', name = '', extension = ''] = match;
+      const existing = migrations.get(version);
+      if (existing && existing.name !== name) {
+        throw new Error(`Duplicate migration version ${version}: "${existing.name}" and "${name}"`);
+      }
+      const migration: MigrationFile = existing ?? { version, name };
+      const path = join(this.dir, entry);
+
+      if (extension === '.up.sql') {
+        migration.up = sqlStep(await readFile(path, 'utf-8'));
+      } else if (extension === '.down.sql') {
+        migration.down = sqlStep(await readFile(path, 'utf-8'));
+      } else {
+        const mod = (await import(pathToFileURL(path).href)) as Partial<MigrationModule>;
+        if (typeof mod.up !== 'function') {
+          throw new Error(`Migration ${entry} must export an up(tx) function`);
+        }
+        migration.up = mod.up.bind(mod);
+        if (typeof mod.down === 'function') {
+          migration.down = mod.down.bind(mod);
+        }
+      }
+
+      migrations.set(version, migration);
+    }
+
+    return Array.from(migrations.values()).sort((a, b) => compareVersions(a.version, b.version));
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RateLimiterService } from './rate-limiter.service.js';
+import type { IRedisDatabase } from '../types.js';
+
+function createRedis(reply: unknown = [1, 4, 0, 60_000]): {
+  db: IRedisDatabase;
+  redis: ReturnType<typeof vi.fn>;
+} {
+  const redis = vi.fn(async (command: string) => (command === 'EVAL' ? reply : 'OK'));
+  const db: IRedisDatabase = {
+    config: { type: 'redis', connection: 'redis://localhost:6379' },
+    init: async () => undefined,
+    getClient: async () => ({}),
+    redis,
+    publish: vi.fn(async () => 0),
+    subscribe: vi.fn(async () => async () => undefined),
+    unsubscribe: vi.fn(async () => undefined),
+    close: async () => undefined,
+  };
+  return { db, redis };
+}
+
+describe('RateLimiterService', () => {
+  it('consumes through one script per strategy with hash-tagged keys', async () => {
+    const { db, redis } = createRedis();
+    vi.spyOn(Date, 'now').mockReturnValue(125_000);
+
+    const fixed = new RateLimiterService(db, { points: 5, duration: 60, prefix: 'api' });
+    await expect(fixed.consume('login:a@b.c')).resolves.toEqual({
+      allowed: true,
+      limit: 5,
+      remaining: 4,
+      retryAfterMs: 0,
+      resetMs: 60_000,
+    });
+    expect(redis).toHaveBeenLastCalledWith(
+      'EVAL',
+      expect.stringContaining('INCRBY'),
+      2,
+      'api:ratelimit:{login:a@b.c}:block',
+      'api:ratelimit:{login:a@b.c}',
+      5,
+      60_000,
+      1
+    );
+
+    const sliding = new RateLimiterService(db, { points: 5, duration: 60, strategy: 'sliding' });
+    await sliding.consume('ip', 2);
+    expect(redis).toHaveBeenLastCalledWith(
+      'EVAL',
+      expect.stringContaining('previous'),
+      3,
+      'ratelimit:{ip}:block',
+      'ratelimit:{ip}:2',
+      'ratelimit:{ip}:1',
+      5,
+      60_000,
+      2,
+      125_000
+    );
+
+    const bucket = new RateLimiterService(db, {
+      points: 10,
+      duration: 1,
+      strategy: 'token-bucket',
+    });
+    await bucket.consume('ip');
+    expect(redis).toHaveBeenLastCalledWith(
+      'EVAL',
+      expect.stringContaining('HMGET'),
+      2,
+      'ratelimit:{ip}:block',
+      'ratelimit:{ip}',
+      10,
+      1000,
+      1,
+      125_000
+    );
+
+    vi.restoreAllMocks();
+  });
+
+  it('blocks and resets keys', async () => {
+    const { db, redis } = createRedis();
+    const limiter = new RateLimiterService(db, { points: 5, duration: 60 });
+
+    await limiter.block('login:x', 900);
+    expect(redis).toHaveBeenLastCalledWith('SET', 'ratelimit:{login:x}:block', '1', 'PX', 900_000);
+
+    await limiter.reset('login:x');
+    expect(redis).toHaveBeenLastCalledWith(
+      'DEL',
+      'ratelimit:{login:x}',
+      'ratelimit:{login:x}:block'
+    );
+
+    expect(() => new RateLimiterService(db, { points: 0, duration: 60 })).toThrow(
+      'Rate limiter "points" and "duration" must be positive numbers'
+    );
+  });
+
+  it('rejects invalid costs and keeps braces in keys inside the hash tag', async () => {
+    const { db, redis } = createRedis();
+    const limiter = new RateLimiterService(db, { points: 5, duration: 60 });
+
+    for (const cost of [0, -3, 1.5, NaN, Infinity]) {
+      await expect(limiter.consume('ip', cost)).rejects.toThrow(
+        `Rate limiter cost must be a positive integer, got ${String(cost)}`
+      );
+    }
+    expect(redis).not.toHaveBeenCalled();
+
+    await limiter.block('}a{b%', 1);
+    expect(redis).toHaveBeenLastCalledWith('SET', 'ratelimit:{%7Da%7Bb%25}:block', '1', 'PX', 1000);
+    await expect(limiter.reset('')).rejects.toThrow('Rate limiter key must not be empty');
+  });
+
+  it('sets headers and answers 429 from the middleware', async () => {
+    const { db } = createRedis([0, 0, 1500, 30_000]);
+    const limiter = new RateLimiterService(db, { points: 5, duration: 60 });
+    const middleware = limiter.middleware<{ ip: string }, typeof res>({ key: (req) => req.ip });
+    const headers: Record<string, string> = {};
+    const res = {
+      statusCode: 200,
+      body: '',
+      setHeader: (name: string, value: string): void => {
+        headers[name] = value;
+      },
+      end: (body?: string): void => {
+        res.body = body ?? '';
+      },
+    };
+    const next = vi.fn();
+
+    await middleware({ ip: '10.0.0.1' }, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(429);
+    expect(JSON.parse(res.body)).toEqual({ error: 'Too Many Requests', retryAfterMs: 1500 });
+    expect(headers).toEqual({
+      'RateLimit-Limit': '5',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '30',
+      'Retry-After': '2',
+      'Content-Type': 'application/json',
+    });
+  });
+});
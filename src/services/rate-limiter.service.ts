@@ -0,0 +1,282 @@
+import { escapeHashTag } from '../utils/redis-cluster.js';
+import type {
+  IRedisDatabase,
+  RateLimiterOptions,
+  RateLimitMiddlewareOptions,
+  RateLimitResponse,
+  RateLimitResult,
+  RateLimitStrategy,
+} from '../types.js';
+
+/**
+ * Every script returns `{ allowed, remaining, retryAfterMs, resetMs }`.
+ * KEYS[1] is always the block key; a blocked key is rejected before anything is consumed.
+ */
+const BLOCKED_CHECK = `
+local blocked = redis.call('PTTL', KEYS[1])
+if blocked > 0 then return { 0, 0, blocked, blocked } end`;
+
+/**
+ * Fixed window counter.
+ * KEYS: block key, counter. ARGV: points, duration in ms, cost.
+ */
+const FIXED_WINDOW_SCRIPT = `${BLOCKED_CHECK}
+local points = tonumber(ARGV[1])
+local duration = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local used = tonumber(redis.call('GET', KEYS[2]) or '0')
+local reset = redis.call('PTTL', KEYS[2])
+if reset < 0 then reset = duration end
+if used + cost > points then
+  return { 0, math.max(0, points - used), reset, reset }
+end
+used = redis.call('INCRBY', KEYS[2], cost)
+if redis.call('PTTL', KEYS[2]) < 0 then redis.call('PEXPIRE', KEYS[2], duration) end
+return { 1, points - used, 0, reset }`;
+
+/**
+ * Sliding window counter: the previous window is weighted by how much of it
+ * still overlaps the sliding window.
+ * KEYS: block key, current window, previous window. ARGV: points, duration in ms, cost, now in ms.
+ */
+const SLIDING_WINDOW_SCRIPT = `${BLOCKED_CHECK}
+local points = tonumber(ARGV[1])
+local duration = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local elapsed = tonumber(ARGV[4]) % duration
+local current = tonumber(redis.call('GET', KEYS[2]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[3]) or '0')
+local used = previous * (1 - elapsed / duration) + current
+local reset = duration - elapsed
+if used + cost > points then
+  local retry = reset
+  local room = points - current - cost
+  if previous > 0 and room >= 0 then
+    retry = math.ceil((1 - room / previous) * duration - elapsed)
+  end
+  return { 0, math.max(0, math.floor(points - used)), math.max(1, retry), reset }
+end
+redis.call('INCRBY', KEYS[2], cost)
+redis.call('PEXPIRE', KEYS[2], duration * 2)
+return { 1, math.floor(points - used - cost), 0, reset }`;
+
+/**
+ * Token bucket holding up to `points` tokens, refilled continuously over `duration`.
+ * KEYS: block key, bucket hash. ARGV: points, duration in ms, cost, now in ms.
+ */
+const TOKEN_BUCKET_SCRIPT = `${BLOCKED_CHECK}
+local points = tonumber(ARGV[1])
+local duration = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local bucket = redis.call('HMGET', KEYS[2], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or points
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(points, tokens + math.max(0, now - ts) * points / duration)
+local allowed = 0
+local retry = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retry = math.ceil((cost - tokens) * duration / points)
+end
+redis.call('HSET', KEYS[2], 'tokens', tokens, 'ts', now)
+redis.call('PEXPIRE', KEYS[2], duration)
+return { allowed, math.floor(tokens), retry, math.ceil((points - tokens) * duration / points) }`;
+
+/**
+ * Redis-backed rate limiter.
+ * Each consume() is a single Lua script, so concurrent requests from any number
+ * of processes cannot overshoot the limit. Keys for one limited key share a hash
+ * tag, so the scripts also run on Redis Cluster.
+ *
+ * @example
+ * const limiter = katax.rateLimiter('cache', { points: 5, duration: 60, strategy: 'sliding' });
+ * const result = await limiter.consume(`login:${email}`);
+ * if (!result.allowed) throw new Error(`Retry in ${result.retryAfterMs} ms`);
+ */
+export class RateLimiterService {
+  private readonly points: number;
+  private readonly durationMs: number;
+  private readonly strategy: RateLimitStrategy;
+  private readonly prefix: string;
+
+  constructor(
+    private readonly redis: IRedisDatabase,
+    options: RateLimiterOptions
+  ) {
+    if (!(options.points > 0) || !(options.duration > 0)) {
+      throw new Error('Rate limiter "points" and "duration" must be positive numbers');
+    }
+    this.points = options.points;
+    this.durationMs = Math.round(options.duration * 1000);
+    this.strategy = options.strategy ?? 'fixed';
+    this.prefix = `${options.prefix ? `${options.prefix}:` : ''}ratelimit:`;
+  }
+
+  /**
+   * Consume `cost` points for a key. Rejected calls consume nothing.
+   *
+   * @example
+   * const { allowed, remaining, retryAfterMs } = await limiter.consume(apiKey, 2);
+   */
+  public async consume(key: string, cost = 1): Promise<RateLimitResult> {
+    // A negative cost would refund points, a fractional one fails in INCRBY
+    if (!Number.isInteger(cost) || cost <= 0) {
+      throw new Error(`Rate limiter cost must be a positive integer, got ${String(cost)}`);
+    }
+
+    const base = this.baseKey(key);
+    const now = Date.now();
+    const args: (string | number)[] = [this.points, this.durationMs, cost];
+    let reply: unknown;
+
+    try {
+      switch (this.strategy) {
+        case 'fixed':
+          reply = await this.redis.redis(
+            'EVAL',
+            FIXED_WINDOW_SCRIPT,
+            2,
+            `${base}:block`,
+            base,
+            ...args
+          );
+          break;
+        case 'sliding': {
+          const window = Math.floor(now / this.durationMs);
+          reply = await this.redis.redis(
+            'EVAL',
+            SLIDING_WINDOW_SCRIPT,
+            3,
+            `${base}:block`,
+            `${base}:${String(window)}`,
+            `${base}:${String(window - 1)}`,
+            ...args,
+            now
+          );
+          break;
+        }
+        case 'token-bucket':
+          reply = await this.redis.redis(
+            'EVAL',
+            TOKEN_BUCKET_SCRIPT,
+            2,
+            `${base}:block`,
+            base,
+            ...args,
+            now
+          );
+          break;
+      }
+    } catch (error) {
+      throw new Error(
+        `Rate limiter consume failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const [allowed, remaining, retryAfterMs, resetMs] = (reply as number[]).map(Number);
+    return {
+      allowed: allowed === 1,
+      limit: this.points,
+      remaining: Math.max(0, remaining ?? 0),
+      retryAfterMs: retryAfterMs ?? 0,
+      resetMs: resetMs ?? 0,
+    };
+  }
+
+  /**
+   * Reject every consume() for a key during `seconds`, whatever its remaining points
+   *
+   * @example
+   * await limiter.block(`login:${email}`, 15 * 60); // after too many failed logins
+   */
+  public async block(key: string, seconds: number): Promise<void> {
+    try {
+      await this.redis.redis(
+        'SET',
+        `${this.baseKey(key)}:block`,
+        '1',
+        'PX',
+        Math.round(seconds * 1000)
+      );
+    } catch (error) {
+      throw new Error(
+        `Rate limiter block failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Forget consumed points and any block for a key
+   */
+  public async reset(key: string): Promise<void> {
+    const base = this.baseKey(key);
+    const keys = [base, `${base}:block`];
+    if (this.strategy === 'sliding') {
+      const window = Math.floor(Date.now() / this.durationMs);
+      keys.push(`${base}:${String(window)}`, `${base}:${String(window - 1)}`);
+    }
+
+    try {
+      await this.redis.redis('DEL', ...keys);
+    } catch (error) {
+      throw new Error(
+        `Rate limiter reset failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Connect-style middleware `(req, res, next)` usable with Express, Connect or
+   * plain `http` servers. Sets `RateLimit-*` headers and answers 429 with
+   * `Retry-After` when the limit is reached; Redis errors are passed to `next`.
+   *
+   * @example
+   * app.use(limiter.middleware({ key: (req) => req.ip ?? 'anonymous' }));
+   */
+  public middleware<Req, Res extends RateLimitResponse>(
+    options: RateLimitMiddlewareOptions<Req, Res>
+  ): (req: Req, res: Res, next: (err?: unknown) => void) => Promise<void> {
+    return async (req, res, next) => {
+      let result: RateLimitResult;
+      try {
+        const cost = typeof options.cost === 'function' ? options.cost(req) : options.cost;
+        result = await this.consume(await options.key(req), cost);
+      } catch (err) {
+        next(err);
+        return;
+      }
+
+      res.setHeader('RateLimit-Limit', String(result.limit));
+      res.setHeader('RateLimit-Remaining', String(result.remaining));
+      res.setHeader('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+
+      if (result.allowed) {
+        next();
+        return;
+      }
+
+      res.setHeader('Retry-After', String(Math.ceil(result.retryAfterMs / 1000)));
+      if (options.onLimited) {
+        options.onLimited(req, res, result);
+        return;
+      }
+      res.statusCode = 429;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: 'Too Many Requests', retryAfterMs: result.retryAfterMs }));
+    };
+  }
+
+  /**
+   * `{key}` is a hash tag: every key of one limited key lands in the same cluster slot.
+   * Braces in the key are escaped, and an empty tag would not count as one.
+   */
+  private baseKey(key: string): string {
+    if (key === '') {
+      throw new Error('Rate limiter key must not be empty');
+    }
+    return `${this.prefix}{${escapeHashTag(key)}}`;
+  }
+}
@@ -1,9 +1,12 @@
 import { Server as SocketIOServer } from 'socket.io';
 import type { Server as HttpServer } from 'http';
-import pino from 'pino';
-import type { IWebSocketConnection, IWebSocketService, WebSocketConfig } from '../types.js';
-
-const logger = pino({ name: 'katax:websocket' });
+import type {
+  ILoggerService,
+  IWebSocketConnection,
+  IWebSocketService,
+  WebSocketConfig,
+} from '../types.js';
+import { LoggerService } from './logger.service.js';
 
 /**
  * WebSocket service implementation using Socket.IO
@@ -13,9 +16,15 @@ export class WebSocketService implements IWebSocketService {
   private io: SocketIOServer | null = null;
   private readonly config: WebSocketConfig;
   private initialized = false;
+  private readonly logger: ILoggerService;
 
-  constructor(config?: WebSocketConfig) {
+  /**
+   * @param logger - Receives server and client connection events, usually
+   * katax.logger; defaults to a standalone pino logger at `info` level
+   */
+  constructor(config?: WebSocketConfig, logger?: ILoggerService) {
     this.config = config ?? {};
+    this.logger = (logger ?? new LoggerService()).child({ name: 'katax:websocket' });
   }
 
   /**
@@ -44,13 +53,13 @@ export class WebSocketService implements IWebSocketService {
             });
 
       if (this.config.httpServer) {
-        logger.info('Attaching Socket.IO to existing HTTP server');
+        this.logger.info({ message: 'Attaching Socket.IO to existing HTTP server' });
         this.io = new SocketIOServer(this.config.httpServer as HttpServer, {
           cors: corsConfig,
         });
       } else {
         const port = this.config.port ?? 3001;
-        logger.info({ port }, 'Creating standalone Socket.IO server');
+        this.logger.info({ message: 'Creating standalone Socket.IO server', port });
         this.io = new SocketIOServer(port, {
           cors: corsConfig,
         });
@@ -88,22 +97,22 @@ export class WebSocketService implements IWebSocketService {
       }
 
       this.io.on('connection', (socket) => {
-        logger.info({ socketId: socket.id }, 'WebSocket client connected');
+        this.logger.info({ message: 'WebSocket client connected', socketId: socket.id });
 
         socket.on('join-room', (room: string) => {
           socket.join(room);
-          logger.info({ socketId: socket.id, room }, 'Client joined room');
+          this.logger.info({ message: 'Client joined room', socketId: socket.id, room });
           socket.emit('room-joined', { room });
         });
 
         socket.on('leave-room', (room: string) => {
           socket.leave(room);
-          logger.info({ socketId: socket.id, room }, 'Client left room');
+          this.logger.info({ message: 'Client left room', socketId: socket.id, room });
           socket.emit('room-left', { room });
         });
 
         socket.on('disconnect', () => {
-          logger.info({ socketId: socket.id }, 'WebSocket client disconnected');
+          this.logger.info({ message: 'WebSocket client disconnected', socketId: socket.id });
         });
       });
 
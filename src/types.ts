@@ -173,10 +173,22 @@ export interface HealthCheckResult {
    */
   services: {
     databases: Record<string, boolean>;
+    /**
+     * Lazy connections (katax.registerDatabase) that have not been opened yet.
+     * They are not pinged and do not affect the overall status.
+     */
+    unopenedDatabases?: string[];
     sockets: Record<string, boolean>;
     cron: boolean;
   };
 
+  /**
+   * Query statistics per database connection (see db.stats())
+   */
+  metrics?: {
+    databases: Record<string, DatabaseQueryStats>;
+  };
+
   /**
    * Timestamp of the check
    */
@@ -231,7 +243,7 @@ export interface DatabaseConfig {
   /**
    * Database type
    */
-  type: 'postgresql' | 'mysql' | 'mongodb' | 'redis';
+  type: 'postgresql' | 'mysql' | 'sqlite' | 'mongodb' | 'redis';
 
   /**
    * Whether this database connection is required for the app to function
@@ -242,12 +254,15 @@ export interface DatabaseConfig {
   required?: boolean;
 
   /**
-   * Connection string or connection options
+   * Connection string or connection options.
+   * PostgreSQL and MySQL also accept `{ primary, replicas }` to route reads to replicas.
    */
   connection:
     | string
+    | ReplicatedConnectionOptions
     | PostgreSQLConnectionOptions
     | MySQLConnectionOptions
+    | SQLiteConnectionOptions
     | MongoDBConnectionOptions
     | RedisConnectionOptions;
 
@@ -255,6 +270,206 @@ export interface DatabaseConfig {
    * Connection pool options
    */
   pool?: PoolConfig;
+
+  /**
+   * Retry the initial connection with exponential backoff
+   * (e.g. while the database container is still booting)
+   * @default undefined (single attempt)
+   */
+  retry?: DatabaseRetryConfig;
+
+  /**
+   * Log queries slower than this threshold (ms) through the katax logger,
+   * with literal values redacted from the SQL
+   * @default undefined (disabled)
+   */
+  slowQueryThresholdMs?: number;
+
+  /**
+   * Called after every SQL query (success or failure).
+   * Use it to forward query events to your own tracing/metrics.
+   * Errors thrown by the hook are ignored.
+   */
+  onQuery?: (event: QueryEvent) => void;
+
+  /**
+   * Schema migrations (PostgreSQL, MySQL, SQLite only)
+   * When provided, pending migrations are applied after connecting
+   */
+  migrations?: MigrationConfig;
+}
+
+/**
+ * Options for katax.registerDatabase()
+ */
+export interface RegisterDatabaseOptions {
+  /**
+   * Open the pool on the first query/getClient() call instead of right away
+   * @default false
+   */
+  lazy?: boolean;
+}
+
+/**
+ * Connection retry settings for DatabaseConfig.retry
+ */
+export interface DatabaseRetryConfig {
+  /**
+   * Total connection attempts, including the first one
+   * @default 5
+   */
+  attempts?: number;
+
+  /**
+   * Delay before the second attempt, doubled after every failure
+   * @default 500
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between attempts
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Random spread applied to each delay, as a ratio of the delay (0 disables jitter)
+   * @default 0.2
+   */
+  jitter?: number;
+
+  /**
+   * For `required: false` databases: when every attempt fails, keep reconnecting
+   * in the background and attach the connection to katax once it succeeds
+   * @default false
+   */
+  backgroundReconnect?: boolean;
+}
+
+/**
+ * Query event passed to DatabaseConfig.onQuery
+ */
+export interface QueryEvent {
+  /** Database connection name */
+  database: string | undefined;
+  /** Database type */
+  type: DatabaseConfig['type'];
+  /** SQL text as passed to query() (parameter values are never included) */
+  sql: string;
+  /** Query duration in milliseconds */
+  durationMs: number;
+  /** Whether the query succeeded */
+  success: boolean;
+  /** Whether the duration exceeded slowQueryThresholdMs */
+  slow: boolean;
+  /** Whether the query ran inside db.transaction() */
+  inTransaction: boolean;
+  /** Driver error, when the query failed */
+  error?: unknown;
+}
+
+/**
+ * Query counters for a single database connection, returned by db.stats()
+ */
+export interface DatabaseQueryStats {
+  /** Total number of queries executed */
+  count: number;
+  /** Number of failed queries */
+  errors: number;
+  /** Number of queries slower than slowQueryThresholdMs */
+  slowQueries: number;
+  /** Latency percentiles over the most recent queries */
+  latencyMs: {
+    p50: number;
+    p95: number;
+    p99: number;
+    max: number;
+  };
+}
+
+/**
+ * Schema migration configuration
+ */
+export interface MigrationConfig {
+  /**
+   * Directory containing migration files.
+   * Supported layouts (ordered by the numeric version prefix):
+   * - `001_create_users.up.sql` + optional `001_create_users.down.sql`
+   * - `001_create_users.ts` / `.js` / `.mjs` exporting `up(tx)` and optional `down(tx)`
+   */
+  dir: string;
+
+  /**
+   * Table used to record applied migrations
+   * @default 'katax_migrations'
+   */
+  table?: string;
+
+  /**
+   * Apply pending migrations when the connection opens (katax.database(), or the first
+   * use of a lazy connection), before any other query runs
+   * @default true
+   */
+  runOnInit?: boolean;
+
+  /**
+   * Maximum time (ms) to wait for the migration lock held by another replica (MySQL only,
+   * PostgreSQL waits on the advisory lock until it is released)
+   * @default 60000
+   */
+  lockTimeoutMs?: number;
+}
+
+/**
+ * Module shape expected from `.ts` / `.js` migration files
+ */
+export interface MigrationModule {
+  up(tx: ISqlTransaction): Promise<void>;
+  down?(tx: ISqlTransaction): Promise<void>;
+}
+
+/**
+ * Options for migration runs
+ */
+export interface MigrationRunOptions {
+  /**
+   * Only report which migrations would run, without executing anything
+   * @default false
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Status of a single migration
+ */
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+}
+
+/**
+ * Migration runner exposed as `db.migrate` on SQL databases
+ */
+export interface IMigrationRunner {
+  /**
+   * Apply all pending migrations in version order
+   * @returns The migrations that were applied (or would be, in dry-run mode)
+   */
+  up(options?: MigrationRunOptions): Promise<MigrationStatus[]>;
+
+  /**
+   * Revert the last `steps` applied migrations
+   * @default steps 1
+   * @returns The migrations that were reverted (or would be, in dry-run mode)
+   */
+  down(steps?: number, options?: MigrationRunOptions): Promise<MigrationStatus[]>;
+
+  /**
+   * List every known migration with its applied state
+   */
+  status(): Promise<MigrationStatus[]>;
 }
 
 /**
@@ -269,6 +484,46 @@ export interface PostgreSQLConnectionOptions {
   ssl?: boolean | Record<string, unknown>;
 }
 
+/**
+ * Single SQL connection target: a connection string or connection options
+ */
+export type SqlConnectionTarget = string | PostgreSQLConnectionOptions | MySQLConnectionOptions;
+
+/**
+ * How DatabaseService picks a replica for read queries
+ * - 'round-robin': rotate through healthy replicas
+ * - 'least-latency': pick the healthy replica with the lowest recent latency
+ */
+export type ReplicaSelection = 'round-robin' | 'least-latency';
+
+/**
+ * Primary/replica connection options (PostgreSQL, MySQL only)
+ * Read-only queries (SELECT, SHOW, EXPLAIN, read-only WITH) go to a replica,
+ * everything else, transactions and migrations go to the primary.
+ */
+export interface ReplicatedConnectionOptions {
+  primary: SqlConnectionTarget;
+  replicas: SqlConnectionTarget[];
+
+  /**
+   * Replica selection strategy
+   * @default 'round-robin'
+   */
+  selection?: ReplicaSelection;
+}
+
+/**
+ * Replica state returned by db.checkReplicas()
+ */
+export interface ReplicaStatus {
+  /** Replica name ('replica-0', 'replica-1', ...) in configuration order */
+  name: string;
+  /** Whether the replica currently receives reads */
+  healthy: boolean;
+  /** Smoothed latency of recent queries and pings, null until measured */
+  latencyMs: number | null;
+}
+
 /**
  * MySQL connection options
  */
@@ -281,31 +536,148 @@ export interface MySQLConnectionOptions {
   ssl?: boolean | Record<string, unknown>;
 }
 
+/**
+ * SQLite connection options
+ * A string connection is used as the filename (use ':memory:' for an in-memory database)
+ */
+export interface SQLiteConnectionOptions {
+  /**
+   * Path to the database file, or ':memory:'
+   */
+  filename: string;
+
+  /**
+   * Open the database in read-only mode
+   * @default false
+   */
+  readonly?: boolean;
+
+  /**
+   * Fail instead of creating the file when it does not exist
+   * @default false
+   */
+  fileMustExist?: boolean;
+}
+
 /**
  * MongoDB connection options
  */
 export interface MongoDBConnectionOptions {
+  /**
+   * Server host, or the SRV record name with `srv: true`
+   */
   host: string;
   port?: number;
+
+  /**
+   * Further replica set members as `host:port`, added to the seed list after host/port
+   */
+  hosts?: string[];
+
+  /**
+   * Default database used by `collection()`, `stream()` and `withSession()`
+   */
   database: string;
   user?: string;
   password?: string;
+
+  /**
+   * Database holding the user's credentials
+   * @default driver default ('admin' when user/password are set)
+   */
   authSource?: string;
+
+  /**
+   * Replica set name
+   */
+  replicaSet?: string;
+
+  /**
+   * Resolve the seed list through DNS (`mongodb+srv://`). `port` and `hosts` are not allowed.
+   * @default false
+   */
+  srv?: boolean;
+
+  /**
+   * Connect over TLS (implied by `srv: true`)
+   * @default false
+   */
+  tls?: boolean;
+}
+
+/**
+ * Redis connection options: a single node, a Sentinel-managed master or a Cluster
+ */
+export type RedisConnectionOptions =
+  RedisStandaloneConnectionOptions | RedisSentinelConnectionOptions | RedisClusterConnectionOptions;
+
+/**
+ * Single Redis node
+ */
+export interface RedisStandaloneConnectionOptions {
+  host: string;
+  port?: number;
+  password?: string;
+  db?: number;
+  tls?: boolean;
 }
 
 /**
- * Redis connection options
+ * Redis node address (Sentinel or Cluster member)
  */
-export interface RedisConnectionOptions {
+export interface RedisNodeAddress {
   host: string;
   port?: number;
+}
+
+/**
+ * Master discovered through Redis Sentinel (requires redis >= 5)
+ */
+export interface RedisSentinelConnectionOptions {
+  /**
+   * Sentinel nodes, port defaults to 26379
+   */
+  sentinels: RedisNodeAddress[];
+
+  /**
+   * Name of the monitored master
+   */
+  masterName: string;
+
+  /** Password of the master/replica nodes */
   password?: string;
+
+  /** Password of the Sentinel nodes, when different */
+  sentinelPassword?: string;
   db?: number;
   tls?: boolean;
 }
 
+/**
+ * Redis Cluster
+ * Multi-key commands used by katax (DEL, MGET, MSET) are split per hash slot and
+ * SCAN walks every master; use `{hash tags}` for keys that must stay on one shard.
+ */
+export interface RedisClusterConnectionOptions {
+  cluster: {
+    /**
+     * Seed nodes, port defaults to 6379. The rest of the topology is discovered.
+     */
+    rootNodes: RedisNodeAddress[];
+
+    /**
+     * Send read-only commands to replicas
+     * @default false
+     */
+    useReplicas?: boolean;
+  };
+  password?: string;
+  tls?: boolean;
+}
+
 /**
  * Connection pool configuration
+ * The defaults apply to SQL pools; MongoDB only receives the settings given.
  */
 export interface PoolConfig {
   /**
@@ -618,7 +990,7 @@ export interface IDatabaseService {
   init(): Promise<void>;
 
   /**
-   * Execute a SQL query (PostgreSQL, MySQL only)
+   * Execute a SQL query (PostgreSQL, MySQL, SQLite only)
    * Not available for MongoDB or Redis - use getClient() instead
    * @param sql - SQL query or operation
    * @param params - Query parameters
@@ -635,12 +1007,47 @@ export interface IDatabaseService {
    */
   getClient(): Promise<unknown>;
 
+  /**
+   * Run a callback inside a transaction (PostgreSQL, MySQL, SQLite only)
+   * @param fn - Callback receiving a transaction handle bound to one connection
+   * @param options - Isolation level and access mode
+   */
+  transaction?<T>(
+    fn: (tx: ISqlTransaction) => Promise<T>,
+    options?: SqlTransactionOptions
+  ): Promise<T>;
+
   /**
    * Execute Redis command (only available for Redis connections)
    * @param args - Redis command and arguments
    */
   redis?(...args: readonly unknown[]): Promise<unknown>;
 
+  /**
+   * Query counters and latency percentiles for this connection
+   */
+  stats?(): DatabaseQueryStats;
+
+  /**
+   * Whether the connection pool is open (false for lazy connections before first use)
+   */
+  isOpen?(): boolean;
+
+  /**
+   * Query executor bound to the primary (SQL connections only)
+   */
+  primary?(): ISqlExecutor;
+
+  /**
+   * Ping every read replica, evicting failing ones from routing and restoring recovered ones
+   */
+  checkReplicas?(): Promise<ReplicaStatus[]>;
+
+  /**
+   * Drop every pub/sub subscription (Redis connections only)
+   */
+  unsubscribe?(): Promise<void>;
+
   /**
    * Close all connections and shutdown the pool
    */
@@ -648,80 +1055,692 @@ export interface IDatabaseService {
 }
 
 /**
- * Typed view for SQL databases (PostgreSQL / MySQL).
- * Obtain via `db.asSql()` or directly from `katax.database({ type: 'postgresql', ... })`.
+ * SQL transaction isolation levels (PostgreSQL / MySQL).
+ * SQLite transactions are always serializable.
  */
-export interface ISqlDatabase extends Omit<IDatabaseService, 'query' | 'redis'> {
-  readonly config: DatabaseConfig;
-  /** Execute a parameterized SQL query and return typed rows (required for SQL) */
-  query<T = unknown>(sql: string, params?: unknown[]): Promise<T>;
-  getClient(): Promise<unknown>;
-  close(): Promise<void>;
-}
+export type SqlIsolationLevel =
+  'read uncommitted' | 'read committed' | 'repeatable read' | 'serializable';
 
 /**
- * Typed view for MongoDB databases.
- * Obtain via `db.asMongo()` or directly from `katax.database({ type: 'mongodb', ... })`.
+ * Options for db.transaction()
  */
-export interface IMongoDatabase extends Omit<IDatabaseService, 'query' | 'redis'> {
-  readonly config: DatabaseConfig;
-  getClient(): Promise<unknown>;
-  close(): Promise<void>;
+export interface SqlTransactionOptions {
+  /**
+   * Isolation level for the transaction
+   * @default the server default
+   */
+  isolationLevel?: SqlIsolationLevel;
+
+  /**
+   * Start the transaction in read-only mode (ignored by SQLite)
+   * @default false
+   */
+  readOnly?: boolean;
 }
 
 /**
- * Typed view for Redis databases.
- * Obtain via `db.asRedis()` or directly from `katax.database({ type: 'redis', ... })`.
+ * Parameterized SQL built with the `sql` tagged template.
+ * Interpolated values are sent as query parameters, never concatenated into the SQL text.
  */
-export interface IRedisDatabase extends Omit<IDatabaseService, 'query' | 'redis'> {
-  readonly config: DatabaseConfig;
-  /** Send a Redis command (e.g. 'SET', 'key', 'value') */
-  redis(...args: (string | number | Buffer)[]): Promise<unknown>;
-  close(): Promise<void>;
+export interface SqlFragment {
+  readonly strings: readonly string[];
+  readonly values: readonly unknown[];
 }
 
 /**
- * Connected WebSocket client exposed to custom connection handlers.
+ * WHERE clause for the query builder helpers.
+ * An object means `column = value AND ...` (`null` -> IS NULL, arrays -> IN);
+ * use a `sql` fragment for anything else.
  */
-export interface IWebSocketConnection {
-  emit(event: string, data: unknown): void;
-  on(event: string, handler: (data: unknown) => void): void;
-  join(room: string): void;
-  leave(room: string): void;
-}
+export type SqlWhere = Record<string, unknown> | SqlFragment;
 
 /**
- * WebSocket service interface
- * Primary use case: Broadcasting logs/events to connected dashboards (unidirectional)
- * Supports rooms for targeted broadcasting (e.g., by project, environment, service)
+ * Options for db.insert(), db.insertMany() and db.update()
  */
-export interface IWebSocketService {
+export interface SqlWriteOptions {
   /**
-   * Initialize the WebSocket server
+   * Columns returned through RETURNING (PostgreSQL, SQLite). Ignored on MySQL.
+   * @default '*'
    */
-  init(): Promise<void>;
+  returning?: '*' | string[];
+}
 
+/**
+ * Options for db.upsert()
+ */
+export interface SqlUpsertOptions extends SqlWriteOptions {
   /**
-   * Emit an event to all connected clients (broadcast)
-   * Use this for sending logs, metrics, or any data to dashboards
-   * @param event - Event name
-   * @param data - Event data
-   * @param room - Optional room name to emit only to specific room
+   * Conflict target columns (PostgreSQL, SQLite `ON CONFLICT`).
+   * MySQL reacts to any unique key violation.
    */
-  emit(event: string, data: unknown, room?: string): void;
+  conflict: string[];
 
   /**
-   * Emit to a specific room only
-   * @param room - Room name
-   * @param event - Event name
-   * @param data - Event data
+   * Columns overwritten when the row already exists
+   * @default every inserted column not in `conflict` (an empty list means do nothing)
    */
-  emitToRoom(room: string, event: string, data: unknown): void;
+  update?: string[];
+}
 
+/**
+ * Options for db.selectOne()
+ */
+export interface SqlSelectOptions {
   /**
-   * Register an event listener for bidirectional communication
-   * ⚠️ Use only if you need clients to send commands back to server
-   * @param event - Event name
+   * Columns to select
+   * @default all columns
+   */
+  columns?: string[];
+}
+
+/**
+ * Result of the query builder write helpers
+ */
+export interface SqlWriteResult<T> {
+  /** Rows returned by RETURNING (PostgreSQL, SQLite); always empty on MySQL */
+  rows: T[];
+  /** Number of rows written */
+  affectedRows: number;
+  /** LAST_INSERT_ID of the first inserted row (MySQL) or rowid of the last one (SQLite); null elsewhere */
+  insertId: number | string | null;
+}
+
+/**
+ * Options for db.stream()
+ */
+export interface StreamOptions {
+  /**
+   * Rows fetched per round trip (and per yielded batch with `batches: true`)
+   * @default 1000
+   */
+  batchSize?: number;
+
+  /**
+   * Yield arrays of up to `batchSize` rows instead of single rows
+   * @default false
+   */
+  batches?: boolean;
+}
+
+/**
+ * Options for db.stream() on MongoDB connections
+ */
+export interface MongoStreamOptions extends StreamOptions {
+  projection?: Record<string, unknown>;
+  sort?: Record<string, 1 | -1>;
+  limit?: number;
+}
+
+/**
+ * MongoDB query filter. Known fields autocomplete; operators like `$or` are allowed.
+ */
+export type MongoFilter<T> = { [K in keyof T]?: unknown } & Record<string, unknown>;
+
+/**
+ * Document to insert, `_id` generated by the driver when omitted
+ */
+export type MongoOptionalId<T> = Omit<T, '_id'> & { _id?: unknown };
+
+/**
+ * Client session handed to db.withSession() callbacks.
+ * Pass it as `{ session }` to every operation that belongs to the transaction.
+ */
+export interface IMongoSession {
+  readonly id?: unknown;
+  inTransaction(): boolean;
+}
+
+/**
+ * Driver options for a single operation (`session`, `projection`, `sort`, `upsert`, ...)
+ */
+export interface MongoOperationOptions {
+  session?: IMongoSession;
+  [option: string]: unknown;
+}
+
+export interface IMongoCursor<T> extends AsyncIterable<T> {
+  toArray(): Promise<T[]>;
+  close(): Promise<void>;
+}
+
+export interface MongoUpdateResult {
+  acknowledged: boolean;
+  matchedCount: number;
+  modifiedCount: number;
+  upsertedCount: number;
+  upsertedId: unknown;
+}
+
+export interface MongoDeleteResult {
+  acknowledged: boolean;
+  deletedCount: number;
+}
+
+/**
+ * Typed subset of the MongoDB driver's Collection, returned by db.collection<T>()
+ */
+export interface IMongoCollection<T> {
+  readonly collectionName: string;
+  find(filter?: MongoFilter<T>, options?: MongoOperationOptions): IMongoCursor<T>;
+  findOne(filter?: MongoFilter<T>, options?: MongoOperationOptions): Promise<T | null>;
+  insertOne(
+    doc: MongoOptionalId<T>,
+    options?: MongoOperationOptions
+  ): Promise<{ acknowledged: boolean; insertedId: unknown }>;
+  insertMany(
+    docs: MongoOptionalId<T>[],
+    options?: MongoOperationOptions
+  ): Promise<{
+    acknowledged: boolean;
+    insertedCount: number;
+    insertedIds: Record<number, unknown>;
+  }>;
+  updateOne(
+    filter: MongoFilter<T>,
+    update: Record<string, unknown> | Record<string, unknown>[],
+    options?: MongoOperationOptions
+  ): Promise<MongoUpdateResult>;
+  updateMany(
+    filter: MongoFilter<T>,
+    update: Record<string, unknown> | Record<string, unknown>[],
+    options?: MongoOperationOptions
+  ): Promise<MongoUpdateResult>;
+  deleteOne(filter: MongoFilter<T>, options?: MongoOperationOptions): Promise<MongoDeleteResult>;
+  deleteMany(filter: MongoFilter<T>, options?: MongoOperationOptions): Promise<MongoDeleteResult>;
+  countDocuments(filter?: MongoFilter<T>, options?: MongoOperationOptions): Promise<number>;
+  aggregate<R = Record<string, unknown>>(
+    pipeline: Record<string, unknown>[],
+    options?: MongoOperationOptions
+  ): IMongoCursor<R>;
+}
+
+/**
+ * Options for db.withSession() transactions
+ */
+export interface MongoTransactionOptions {
+  readConcern?: { level: 'local' | 'majority' | 'snapshot' };
+  writeConcern?: { w?: number | 'majority'; j?: boolean; wtimeoutMS?: number };
+  readPreference?: 'primary' | 'primaryPreferred' | 'secondary' | 'secondaryPreferred' | 'nearest';
+  maxCommitTimeMS?: number;
+}
+
+/**
+ * Query executor bound to one pool, returned by db.primary() and db.replica()
+ */
+export interface ISqlExecutor {
+  /** Execute a parameterized SQL query (string + params, or a `sql` fragment) */
+  query<T = unknown>(sql: string | SqlFragment, params?: unknown[]): Promise<T>;
+}
+
+/**
+ * Transaction handle passed to db.transaction() callbacks.
+ * Every query runs on the same checked-out connection.
+ */
+export interface ISqlTransaction {
+  /** Execute a parameterized SQL query inside the transaction */
+  query<T = unknown>(sql: string | SqlFragment, params?: unknown[]): Promise<T>;
+
+  /**
+   * Run a nested block inside a savepoint.
+   * Rolls back to the savepoint if the callback throws, leaving the outer transaction intact.
+   */
+  transaction<T>(fn: (tx: ISqlTransaction) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Typed view for SQL databases (PostgreSQL / MySQL / SQLite).
+ * Obtain via `db.asSql()` or directly from `katax.database({ type: 'postgresql', ... })`.
+ */
+export interface ISqlDatabase extends Omit<
+  IDatabaseService,
+  'query' | 'redis' | 'transaction' | 'primary' | 'checkReplicas' | 'unsubscribe'
+> {
+  readonly config: DatabaseConfig;
+  /**
+   * Execute a parameterized SQL query and return typed rows (required for SQL).
+   * Accepts a `sql` tagged template instead of text + params.
+   */
+  query<T = unknown>(sql: string | SqlFragment, params?: unknown[]): Promise<T>;
+  /** Insert one row with dialect-correct placeholders */
+  insert<T = Record<string, unknown>>(
+    table: string,
+    row: Record<string, unknown>,
+    options?: SqlWriteOptions
+  ): Promise<SqlWriteResult<T>>;
+  /** Insert several rows (same columns) in a single statement */
+  insertMany<T = Record<string, unknown>>(
+    table: string,
+    rows: Record<string, unknown>[],
+    options?: SqlWriteOptions
+  ): Promise<SqlWriteResult<T>>;
+  /** Update the rows matching `where` (a where clause is required) */
+  update<T = Record<string, unknown>>(
+    table: string,
+    patch: Record<string, unknown>,
+    where: SqlWhere,
+    options?: SqlWriteOptions
+  ): Promise<SqlWriteResult<T>>;
+  /** Insert a row, or update it when it conflicts with an existing one */
+  upsert<T = Record<string, unknown>>(
+    table: string,
+    row: Record<string, unknown>,
+    options: SqlUpsertOptions
+  ): Promise<SqlWriteResult<T>>;
+  /** First row of a `sql` query, or null */
+  selectOne<T = Record<string, unknown>>(query: SqlFragment): Promise<T | null>;
+  /** First row of `table` matching `where`, or null */
+  selectOne<T = Record<string, unknown>>(
+    table: string,
+    where?: SqlWhere,
+    options?: SqlSelectOptions
+  ): Promise<T | null>;
+  /**
+   * Stream a large result set without materializing it
+   * (server-side cursor on PostgreSQL, streaming query on MySQL).
+   * Breaking out of the loop releases the connection.
+   */
+  stream<T = Record<string, unknown>>(
+    sql: string | SqlFragment,
+    params?: unknown[],
+    options?: StreamOptions & { batches?: false }
+  ): AsyncIterable<T>;
+  /** Stream a large result set in batches of `batchSize` rows */
+  stream<T = Record<string, unknown>>(
+    sql: string | SqlFragment,
+    params: unknown[] | undefined,
+    options: StreamOptions & { batches: true }
+  ): AsyncIterable<T[]>;
+  /** Run a callback inside a transaction with automatic commit/rollback */
+  transaction<T>(
+    fn: (tx: ISqlTransaction) => Promise<T>,
+    options?: SqlTransactionOptions
+  ): Promise<T>;
+  /** Schema migration runner (requires `migrations` in the database config) */
+  readonly migrate: IMigrationRunner;
+  /** Query counters and latency percentiles for this connection */
+  stats(): DatabaseQueryStats;
+  /** Run queries on the primary, bypassing read routing (e.g. read-your-writes) */
+  primary(): ISqlExecutor;
+  /** Run queries on a replica, or on the primary when no replica is available */
+  replica(): ISqlExecutor;
+  /** Ping every read replica and update routing */
+  checkReplicas(): Promise<ReplicaStatus[]>;
+  getClient(): Promise<unknown>;
+  close(): Promise<void>;
+}
+
+/**
+ * Typed view for MongoDB databases.
+ * Obtain via `db.asMongo()` or directly from `katax.database({ type: 'mongodb', ... })`.
+ */
+export interface IMongoDatabase extends Omit<
+  IDatabaseService,
+  'query' | 'redis' | 'transaction' | 'primary' | 'checkReplicas' | 'unsubscribe'
+> {
+  readonly config: DatabaseConfig;
+  getClient(): Promise<unknown>;
+  /**
+   * Collection of the configured database (`connection.database`, or the URI's database)
+   */
+  collection<T = Record<string, unknown>>(name: string): Promise<IMongoCollection<T>>;
+  /**
+   * Run `fn` in a multi-document transaction (replica set or sharded cluster required).
+   * Commits when `fn` resolves, aborts when it throws; transient errors retry `fn`.
+   */
+  withSession<T>(
+    fn: (session: IMongoSession) => Promise<T>,
+    options?: MongoTransactionOptions
+  ): Promise<T>;
+  /**
+   * Stream documents from a find cursor.
+   * Breaking out of the loop closes the cursor.
+   */
+  stream<T = Record<string, unknown>>(
+    collection: string,
+    filter?: Record<string, unknown>,
+    options?: MongoStreamOptions & { batches?: false }
+  ): AsyncIterable<T>;
+  /** Stream documents in batches of `batchSize` */
+  stream<T = Record<string, unknown>>(
+    collection: string,
+    filter: Record<string, unknown> | undefined,
+    options: MongoStreamOptions & { batches: true }
+  ): AsyncIterable<T[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Typed view for Redis databases.
+ * Obtain via `db.asRedis()` or directly from `katax.database({ type: 'redis', ... })`.
+ */
+export interface IRedisDatabase extends Omit<
+  IDatabaseService,
+  'query' | 'redis' | 'transaction' | 'primary' | 'checkReplicas'
+> {
+  readonly config: DatabaseConfig;
+  /** Send a Redis command (e.g. 'SET', 'key', 'value') */
+  redis(...args: (string | number | Buffer)[]): Promise<unknown>;
+  /**
+   * Publish a JSON-serialized message
+   * @returns Number of clients that received it
+   */
+  publish(channel: string, message: unknown): Promise<number>;
+  /**
+   * Subscribe to a channel, or a pattern when it contains `*`, `?` or `[`.
+   * Runs on a dedicated subscriber connection duplicated on first use and
+   * resubscribed after reconnects. JSON messages are parsed before reaching the handler.
+   * @returns Function removing this handler
+   */
+  subscribe<T = unknown>(
+    channel: string,
+    handler: RedisMessageHandler<T>
+  ): Promise<() => Promise<void>>;
+  /**
+   * Remove one handler, every handler of a channel, or (without arguments) all subscriptions
+   */
+  unsubscribe(channel?: string, handler?: RedisMessageHandler<never>): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process LRU tier in front of Redis
+ */
+export interface CacheL1Options {
+  /**
+   * Maximum number of entries kept in memory
+   * @default 1000
+   */
+  maxEntries?: number;
+
+  /**
+   * Lifetime of an in-memory entry (ms). Bounds staleness if an invalidation is missed.
+   * @default 5000
+   */
+  ttlMs?: number;
+}
+
+/**
+ * Options for katax.cache()
+ */
+export interface CacheOptions {
+  /**
+   * Enable the in-process L1 tier. Writes are broadcast over Redis pub/sub
+   * so other replicas drop their copies.
+   */
+  l1?: CacheL1Options;
+
+  /**
+   * Namespace prepended to every key as `<prefix>:<key>`. An empty string disables it.
+   * On Redis Cluster, a `{hash tag}` prefix keeps the namespace in one slot, which tags need.
+   * @default the app name when created through katax.cache(), none otherwise
+   */
+  prefix?: string;
+
+  /**
+   * How values are turned into strings for Redis
+   * @default jsonSerializer
+   */
+  serializer?: CacheSerializer;
+}
+
+/**
+ * Converts cache values to and from the strings stored in Redis
+ */
+export interface CacheSerializer {
+  serialize(value: unknown): string;
+  deserialize<T = unknown>(raw: string): T;
+}
+
+/**
+ * Options for cache.set()
+ */
+export interface CacheSetOptions {
+  /**
+   * Time-to-live in seconds
+   * @default undefined (no expiration)
+   */
+  ttl?: number;
+
+  /**
+   * Tags the key is tracked under. `cache.invalidateTags()` deletes every key
+   * carrying any of the given tags. On Redis Cluster, requires a hash-tagged prefix.
+   */
+  tags?: string[];
+}
+
+/**
+ * Options for cache.getOrSet()
+ */
+export interface CacheGetOrSetOptions {
+  /**
+   * Time-to-live in seconds
+   * @default undefined (no expiration)
+   */
+  ttl?: number;
+
+  /**
+   * Seconds after `ttl` during which the expired value is still served while
+   * one caller recomputes it in the background
+   * @default 0
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * How long (ms) the recompute lock is held, and how long other processes wait
+   * for the value before running the loader themselves
+   * @default 5000
+   */
+  lockTimeout?: number;
+
+  /**
+   * Tags recorded for the stored value, see cache.invalidateTags()
+   */
+  tags?: string[];
+}
+
+/**
+ * Rate limiting algorithm
+ * - `fixed`: counter reset at the end of each window
+ * - `sliding`: fixed windows weighted into a sliding window, avoids bursts at window edges
+ * - `token-bucket`: `points` tokens refilled continuously over `duration`, allows short bursts
+ */
+export type RateLimitStrategy = 'fixed' | 'sliding' | 'token-bucket';
+
+/**
+ * Options for katax.rateLimiter()
+ */
+export interface RateLimiterOptions {
+  /**
+   * Points available per key in each `duration`
+   */
+  points: number;
+
+  /**
+   * Window length, or full refill time for `token-bucket` (seconds)
+   */
+  duration: number;
+
+  /**
+   * @default 'fixed'
+   */
+  strategy?: RateLimitStrategy;
+
+  /**
+   * Namespace for the limiter keys (`<prefix>:ratelimit:{key}`)
+   * @default the app name when created through katax.rateLimiter(), none otherwise
+   */
+  prefix?: string;
+}
+
+/**
+ * Outcome of rateLimiter.consume()
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Configured points per window */
+  limit: number;
+  /** Points left after this call */
+  remaining: number;
+  /** When rejected, how long to wait before the same cost can be consumed (ms), otherwise 0 */
+  retryAfterMs: number;
+  /** Time until the key is back to its full points (ms) */
+  resetMs: number;
+}
+
+/**
+ * Minimal response shape used by rateLimiter.middleware(), matching Node's
+ * `http.ServerResponse` and Express
+ */
+export interface RateLimitResponse {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+/**
+ * Options for rateLimiter.middleware()
+ */
+export interface RateLimitMiddlewareOptions<Req, Res> {
+  /**
+   * Rate-limited key for a request, e.g. the client IP or API key
+   */
+  key: (req: Req) => string | Promise<string>;
+
+  /**
+   * Points consumed per request, a positive integer
+   * @default 1
+   */
+  cost?: number | ((req: Req) => number);
+
+  /**
+   * Custom rejection. Rate limit and `Retry-After` headers are already set.
+   * @default responds 429 with a JSON body
+   */
+  onLimited?: (req: Req, res: Res, result: RateLimitResult) => void;
+}
+
+/**
+ * Options for katax.lock()
+ */
+export interface LockOptions {
+  /**
+   * Namespace for lock keys (`<prefix>:lock:{resource}`)
+   * @default the app name when created through katax.lock(), none otherwise
+   */
+  prefix?: string;
+}
+
+/**
+ * Retries while a lock is held elsewhere, with exponential backoff
+ */
+export interface LockRetryOptions {
+  /**
+   * Retries after the first attempt
+   */
+  attempts: number;
+
+  /**
+   * Delay before the first retry (ms), doubled on each retry
+   * @default 100
+   */
+  delayMs?: number;
+
+  /**
+   * @default 2000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Random spread as a ratio of the delay
+   * @default 0.2
+   */
+  jitter?: number;
+}
+
+/**
+ * Options for lockService.acquire() and withLock()
+ */
+export interface LockAcquireOptions {
+  /**
+   * Lock lifetime (ms). The lock expires by itself if the holder dies.
+   * @default 10000
+   */
+  ttlMs?: number;
+
+  /**
+   * @default no retries
+   */
+  retry?: LockRetryOptions;
+}
+
+/**
+ * An acquired distributed lock
+ */
+export interface LockHandle {
+  resource: string;
+  /** Random value identifying this holder */
+  token: string;
+  /** Fencing token: grows with every acquisition of the resource */
+  fence: number;
+  /** Time (epoch ms) until which the lock is safely held */
+  expiresAt: number;
+  /** Release the lock. Resolves false if it had already expired or been taken over. */
+  release(): Promise<boolean>;
+  /** Reset the lifetime to `ttlMs` (default 10000). Resolves false if the lock was lost. */
+  extend(ttlMs?: number): Promise<boolean>;
+}
+
+/**
+ * Pub/sub handler. `channel` is the channel the message was published to,
+ * which differs from the subscribed pattern for pattern subscriptions.
+ */
+export type RedisMessageHandler<T = unknown> = (
+  message: T,
+  channel: string
+) => void | Promise<void>;
+
+/**
+ * Connected WebSocket client exposed to custom connection handlers.
+ */
+export interface IWebSocketConnection {
+  emit(event: string, data: unknown): void;
+  on(event: string, handler: (data: unknown) => void): void;
+  join(room: string): void;
+  leave(room: string): void;
+}
+
+/**
+ * WebSocket service interface
+ * Primary use case: Broadcasting logs/events to connected dashboards (unidirectional)
+ * Supports rooms for targeted broadcasting (e.g., by project, environment, service)
+ */
+export interface IWebSocketService {
+  /**
+   * Initialize the WebSocket server
+   */
+  init(): Promise<void>;
+
+  /**
+   * Emit an event to all connected clients (broadcast)
+   * Use this for sending logs, metrics, or any data to dashboards
+   * @param event - Event name
+   * @param data - Event data
+   * @param room - Optional room name to emit only to specific room
+   */
+  emit(event: string, data: unknown, room?: string): void;
+
+  /**
+   * Emit to a specific room only
+   * @param room - Room name
+   * @param event - Event name
+   * @param data - Event data
+   */
+  emitToRoom(room: string, event: string, data: unknown): void;
+
+  /**
+   * Register an event listener for bidirectional communication
+   * ⚠️ Use only if you need clients to send commands back to server
+   * @param event - Event name
    * @param handler - Event handler function
    */
   on(event: string, handler: (data: unknown) => void): void;
@@ -775,15 +1794,21 @@ export interface CronJobConfig {
   name: string;
 
   /**
-   * Cron expression for scheduling (e.g., '0 * * * *' runs every hour)
-   * See https://www.npmjs.com/package/node-cron for full syntax
+   * When to run: a cron expression (e.g., '0 * * * *' runs every hour, see
+   * https://www.npmjs.com/package/node-cron for full syntax), a fixed interval
+   * or a single date
+   * @example
+   * schedule: '0 2 * * *'
+   * schedule: { every: '45s', jitterMs: 5000 }
+   * schedule: { at: new Date('2026-11-01T10:00:00Z') }
    */
-  schedule: string;
+  schedule: string | CronIntervalSchedule | CronOneShotSchedule;
 
   /**
-   * Function to execute when cron fires
+   * Function to execute when cron fires.
+   * The signal is aborted when the run exceeds `timeoutMs`.
    */
-  task: () => void | Promise<void>;
+  task: (signal: AbortSignal) => void | Promise<void>;
 
   /**
    * Whether this cron job is enabled
@@ -807,6 +1832,274 @@ export interface CronJobConfig {
    * @default 'UTC'
    */
   timezone?: string;
+
+  /**
+   * Run each scheduled tick on only one replica. Before executing, every instance
+   * tries to take a Redis lock for the job and tick; the others skip it.
+   * @example
+   * distributed: { redis: 'redis', lockTtlMs: 60_000 }
+   */
+  distributed?: CronDistributedOptions;
+
+  /**
+   * Skip a tick while the previous run is still in progress
+   * @default false
+   */
+  preventOverlap?: boolean;
+
+  /**
+   * Fail a run attempt that takes longer than this (ms) and abort its signal
+   * @default undefined (no timeout)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Retry failed runs
+   * @example
+   * retry: { attempts: 3, backoffMs: 1000 } // retries after 1s, 2s and 4s
+   */
+  retry?: CronRetryOptions;
+
+  /**
+   * Run ticks missed while the process was down, found by comparing the schedule
+   * with the job's last run in the cron last-run store (see katax.cronLastRun()):
+   * - 'none': skip missed ticks
+   * - 'once': run once if any tick was missed
+   * - 'all': run every missed tick, oldest first
+   * @default 'none'
+   */
+  catchUp?: 'none' | 'once' | 'all';
+
+  /**
+   * Only catch up ticks missed at most this long ago (ms)
+   * @default 86400000 (24 hours)
+   */
+  maxLatenessMs?: number;
+}
+
+/**
+ * Run a job at a fixed interval. Ticks are aligned to the Unix epoch, so every
+ * replica computes the same ticks (`every: '1h'` runs on the hour, UTC).
+ */
+export interface CronIntervalSchedule {
+  /**
+   * Duration such as '500ms', '45s', '5m', '2h', '1d', or milliseconds
+   */
+  every: string | number;
+
+  /**
+   * Delay each run by a random 0 to `jitterMs` ms, to spread load
+   */
+  jitterMs?: number;
+}
+
+/**
+ * Run a job once. A date already past when the job starts is not scheduled.
+ */
+export interface CronOneShotSchedule {
+  at: Date;
+
+  /**
+   * Delay the run by a random 0 to `jitterMs` ms
+   */
+  jitterMs?: number;
+}
+
+/**
+ * Retries for a failed cron run
+ */
+export interface CronRetryOptions {
+  /**
+   * Retries after the first failed attempt
+   */
+  attempts: number;
+
+  /**
+   * Delay before the first retry (ms), doubled on each retry
+   * @default 1000
+   */
+  backoffMs?: number;
+}
+
+/**
+ * Status of a cron job as reported by getJobs()
+ */
+export interface CronJobInfo {
+  name: string;
+  schedule: CronJobConfig['schedule'];
+  enabled: boolean;
+  /** The job is scheduled */
+  running: boolean;
+  /** Scheduled, but ticks are skipped until resumeJob() */
+  paused: boolean;
+  /** A run is in progress */
+  executing: boolean;
+  /** Next scheduled tick, null when stopped or paused */
+  nextRunAt: Date | null;
+  /** Last tick of the schedule before now, whether or not it ran */
+  previousRunAt: Date | null;
+  /** Start of the last completed run */
+  lastRunAt: Date | null;
+  lastDurationMs: number | null;
+  /** Error message of the last run, null if it succeeded */
+  lastError: string | null;
+  /** Completed runs, including failed ones */
+  runCount: number;
+  /** Runs that failed after all retries */
+  failureCount: number;
+}
+
+/**
+ * One execution of a cron job, as stored in the job history and broadcast
+ * over the WebSocket `cron` event
+ */
+export interface CronRun {
+  job: string;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  status: 'success' | 'failure';
+  /** Attempts made, including retries */
+  attempts: number;
+  /** Error message of the last attempt, null on success */
+  error: string | null;
+  errorStack: string | null;
+  /** `hostname:pid` of the process that ran the job */
+  node: string;
+}
+
+/**
+ * Persistent storage for cron job runs
+ */
+export interface CronHistoryStore {
+  record(run: CronRun): Promise<void>;
+
+  /**
+   * Most recent runs of a job, newest first
+   */
+  list(job: string, limit: number): Promise<CronRun[]>;
+}
+
+/**
+ * Command sent by a WebSocket client as the `cron:command` event
+ */
+export interface CronCommand {
+  action: 'trigger' | 'pause' | 'resume';
+  job: string;
+  /** Credential for `authorize` to check */
+  token?: string;
+  /** Echoed back in the result so the client can match it */
+  id?: string;
+}
+
+/**
+ * Reply to a cron command, sent as the `cron:command-result` event
+ */
+export interface CronCommandResult {
+  id?: string;
+  action?: CronCommand['action'];
+  job?: string;
+  ok: boolean;
+  /** Why the command was rejected or failed */
+  error?: string;
+  /** The finished run, for `trigger` */
+  run?: CronRun;
+}
+
+/**
+ * WebSocket command channel options
+ */
+export interface CronCommandOptions {
+  /**
+   * Called for every command; resolve to false to reject it
+   * @example
+   * authorize: (command) => command.token === process.env.CRON_ADMIN_TOKEN
+   */
+  authorize: (command: CronCommand) => boolean | Promise<boolean>;
+}
+
+/**
+ * Where cron jobs with `catchUp` remember their last scheduled run
+ */
+export interface CronLastRunStore {
+  get(job: string): Promise<Date | null>;
+  set(job: string, at: Date): Promise<void>;
+}
+
+/**
+ * Built-in cron last-run stores
+ */
+export type CronLastRunConfig =
+  | { type: 'memory' }
+  | {
+      type: 'file';
+      /** JSON file, created on first write */
+      path: string;
+    }
+  | {
+      type: 'redis';
+      /** Redis connection name */
+      database: string;
+      /**
+       * Hash holding every job's last run
+       * @default '<appName>:cron:last-run'
+       */
+      key?: string;
+    };
+
+/**
+ * Cron job history configuration
+ */
+export interface CronHistoryConfig {
+  /**
+   * Name of the Redis connection (runs go to a stream per job) or
+   * PostgreSQL / MySQL / SQLite connection (runs go to a table)
+   */
+  database: string;
+
+  /**
+   * Redis only: stream key prefix, followed by `:<job name>`
+   * @default '<appName>:cron:history'
+   */
+  streamKey?: string;
+
+  /**
+   * Redis only: runs kept per job (approximate trimming with MAXLEN ~)
+   * @default 1000
+   */
+  maxLen?: number;
+
+  /**
+   * SQL only: table name, created on first use
+   * @default 'katax_cron_runs'
+   */
+  table?: string;
+}
+
+/**
+ * Options for cronService.getHistory()
+ */
+export interface CronHistoryOptions {
+  /**
+   * @default 20
+   */
+  limit?: number;
+}
+
+/**
+ * Options for cron jobs that run on a single replica per tick
+ */
+export interface CronDistributedOptions {
+  /**
+   * Name of the Redis connection holding the locks
+   */
+  redis: string;
+
+  /**
+   * How long a tick stays claimed (ms). Must exceed the clock skew between replicas.
+   * @default 60000
+   */
+  lockTtlMs?: number;
 }
 
 /**
@@ -852,10 +2145,35 @@ export interface ICronService {
    */
   stopJob(name: string): void;
 
+  /**
+   * Run a job now and resolve with the finished run
+   * @param name - Job name
+   */
+  triggerJob(name: string): Promise<CronRun>;
+
+  /**
+   * Skip a job's ticks while keeping it scheduled
+   * @param name - Job name
+   */
+  pauseJob(name: string): void;
+
+  /**
+   * Resume a paused job
+   * @param name - Job name
+   */
+  resumeJob(name: string): void;
+
   /**
    * Get all registered jobs
    */
-  getJobs(): Array<{ name: string; schedule: string; enabled: boolean; running: boolean }>;
+  getJobs(): CronJobInfo[];
+
+  /**
+   * Recent runs of a job from the history store, newest first.
+   * Requires katax.cronHistory().
+   * @param name - Job name
+   */
+  getHistory(name: string, options?: CronHistoryOptions): Promise<CronRun[]>;
 
   /**
    * Stop all cron jobs
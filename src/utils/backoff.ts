@@ -0,0 +1,32 @@
+/**
+ * Exponential backoff settings
+ */
+export interface BackoffOptions {
+  /** Delay for the first retry */
+  baseDelayMs: number;
+  /** Upper bound for any delay */
+  maxDelayMs: number;
+  /** Random spread as a ratio of the delay (0 disables jitter) */
+  jitter: number;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): `baseDelayMs * 2^(attempt - 1)`,
+ * spread by ±jitter and capped at `maxDelayMs`
+ *
+ * @example
+ * backoffDelay(3, { baseDelayMs: 500, maxDelayMs: 30000, jitter: 0 }) // 2000
+ */
+export function backoffDelay(attempt: number, options: BackoffOptions): number {
+  const exponential = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** Math.max(0, attempt - 1)
+  );
+  const spread = exponential * Math.min(1, Math.max(0, options.jitter));
+  const delay = exponential - spread + Math.random() * spread * 2;
+  return Math.round(Math.min(options.maxDelayMs, Math.max(0, delay)));
+}
+
+export async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { CronSchedule, IntervalSchedule, parseDuration } from './cron-schedule.js';
+
+describe('CronSchedule', () => {
+  it('finds the next and previous ticks', () => {
+    const schedule = new CronSchedule('30 2 * * *');
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    expect(schedule.next(now)?.toISOString()).toBe('2026-03-11T02:30:00.000Z');
+    expect(schedule.previous(now)?.toISOString()).toBe('2026-03-10T02:30:00.000Z');
+    expect(schedule.next(new Date('2026-03-11T02:30:00Z'))?.toISOString()).toBe(
+      '2026-03-12T02:30:00.000Z'
+    );
+    expect(schedule.previous(new Date('2026-03-11T02:30:00Z'))?.toISOString()).toBe(
+      '2026-03-10T02:30:00.000Z'
+    );
+  });
+
+  it('supports seconds, lists, ranges, steps and names', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+
+    expect(new CronSchedule('*/15 * * * * *').next(now)?.toISOString()).toBe(
+      '2026-01-01T00:00:15.000Z'
+    );
+    expect(new CronSchedule('0 9 * * mon-fri').next(now)?.toISOString()).toBe(
+      '2026-01-01T09:00:00.000Z'
+    );
+    expect(new CronSchedule('0 9 * * sat,SUNDAY').next(now)?.toISOString()).toBe(
+      '2026-01-03T09:00:00.000Z'
+    );
+    expect(new CronSchedule('0 0 1 jun *').next(now)?.toISOString()).toBe(
+      '2026-06-01T00:00:00.000Z'
+    );
+    expect(new CronSchedule('0 0 * * 7').previous(now)?.toISOString()).toBe(
+      '2025-12-28T00:00:00.000Z'
+    );
+    expect(new CronSchedule('0 0 29 2 *').next(now)?.toISOString()).toBe(
+      '2028-02-29T00:00:00.000Z'
+    );
+  });
+
+  it('computes ticks in the job time zone, across DST changes', () => {
+    const schedule = new CronSchedule('0 2 * * *', 'Europe/Madrid');
+
+    expect(schedule.next(new Date('2026-03-27T12:00:00Z'))?.toISOString()).toBe(
+      '2026-03-28T01:00:00.000Z'
+    );
+    expect(schedule.next(new Date('2026-03-29T12:00:00Z'))?.toISOString()).toBe(
+      '2026-03-30T00:00:00.000Z'
+    );
+    expect(schedule.previous(new Date('2026-03-30T12:00:00Z'))?.toISOString()).toBe(
+      '2026-03-30T00:00:00.000Z'
+    );
+  });
+
+  it('rejects invalid expressions and never-matching dates', () => {
+    expect(() => new CronSchedule('61 * * * *')).toThrow('Invalid cron expression "61 * * * *"');
+    expect(() => new CronSchedule('* * *')).toThrow('Invalid cron expression');
+    expect(new CronSchedule('0 0 30 2 *').next(new Date())).toBeNull();
+  });
+});
+
+describe('IntervalSchedule', () => {
+  it('parses durations and ticks on multiples of the interval', () => {
+    expect(parseDuration('45s')).toBe(45_000);
+    expect(parseDuration('1.5h')).toBe(5_400_000);
+    expect(parseDuration(250)).toBe(250);
+    expect(parseDuration('5 weeks')).toBeNaN();
+
+    const schedule = new IntervalSchedule(parseDuration('15m'));
+    const now = new Date('2026-03-10T12:20:00Z');
+    expect(schedule.next(now).toISOString()).toBe('2026-03-10T12:30:00.000Z');
+    expect(schedule.previous(now).toISOString()).toBe('2026-03-10T12:15:00.000Z');
+    expect(schedule.previous(new Date('2026-03-10T12:30:00Z')).toISOString()).toBe(
+      '2026-03-10T12:15:00.000Z'
+    );
+  });
+});
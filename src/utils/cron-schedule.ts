@@ -0,0 +1,301 @@
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Ranges of second, minute, hour, day of month, month, day of week (7 is Sunday too) */
+const FIELD_RANGES: [min: number, max: number][] = [
+  [0, 59],
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/** Give up on expressions that never match, such as February 30th */
+const MAX_SEARCH_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Ticks of a job schedule
+ */
+export interface TickSchedule {
+  /** First tick strictly after `after`, or null if there is none */
+  next(after: Date): Date | null;
+  /** Last tick strictly before `before`, or null if there is none */
+  previous(before: Date): Date | null;
+}
+
+/**
+ * Parse a duration such as `500ms`, `45s`, `5m`, `2h` or `1d`; numbers are milliseconds.
+ * Returns NaN for anything else.
+ *
+ * @example
+ * parseDuration('45s'); // 45000
+ */
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)\s*$/.exec(value);
+  const unit = DURATION_UNITS[match?.[2] ?? ''];
+  return match && unit ? Number(match[1]) * unit : NaN;
+}
+
+/**
+ * Fixed interval ticks aligned to the Unix epoch, so every replica computes the
+ * same ticks whenever it started (`every: '1h'` ticks on the hour, in UTC).
+ */
+export class IntervalSchedule implements TickSchedule {
+  constructor(private readonly everyMs: number) {}
+
+  public next(after: Date): Date {
+    return new Date((Math.floor(after.getTime() / this.everyMs) + 1) * this.everyMs);
+  }
+
+  public previous(before: Date): Date {
+    return new Date((Math.ceil(before.getTime() / this.everyMs) - 1) * this.everyMs);
+  }
+}
+
+/**
+ * A single tick
+ */
+export class OneShotSchedule implements TickSchedule {
+  constructor(private readonly at: Date) {}
+
+  public next(after: Date): Date | null {
+    return this.at > after ? this.at : null;
+  }
+
+  public previous(before: Date): Date | null {
+    return this.at < before ? this.at : null;
+  }
+}
+
+/**
+ * Parse one field into the set of values it matches.
+ * Steps keep the values divisible by the step (`5-59/10` is 10, 20 … 50), as
+ * node-cron does, so computed ticks agree with when jobs actually fire.
+ */
+function parseField(field: string, index: number, expression: string): Set<number> {
+  const [min, max] = FIELD_RANGES[index] ?? [0, 0];
+  const names = index === 4 ? MONTH_NAMES : index === 5 ? DAY_NAMES : null;
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number => {
+    const name = names?.indexOf(token.slice(0, 3).toLowerCase()) ?? -1;
+    const value = /^[a-z]+$/i.test(token) && names ? name + (index === 4 ? 1 : 0) : Number(token);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid cron expression "${expression}"`);
+    }
+    return value;
+  };
+
+  for (const item of field.split(',')) {
+    const [range = '', step] = item.split('/');
+    const divisor = step === undefined ? 1 : Number(step);
+    if (!Number.isInteger(divisor) || divisor < 1) {
+      throw new Error(`Invalid cron expression "${expression}"`);
+    }
+
+    const [from, to] =
+      range === '*'
+        ? [min, max]
+        : range.includes('-')
+          ? range.split('-').map(toNumber)
+          : [toNumber(range), toNumber(range)];
+    const low = Math.min(from ?? min, to ?? max);
+    const high = Math.max(from ?? min, to ?? max);
+
+    for (let value = low; value <= high; value++) {
+      if (value % divisor === 0) {
+        values.add(index === 5 && value === 7 ? 0 : value);
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * A parsed node-cron expression (5 fields, or 6 with seconds) that can compute
+ * its ticks in a time zone. All fields must match, as in node-cron.
+ *
+ * Internally the search walks "wall clock" times, stored as UTC milliseconds,
+ * and converts matches back to instants in the job's time zone.
+ *
+ * @example
+ * const schedule = new CronSchedule('0 2 * * *', 'Europe/Madrid');
+ * schedule.next(new Date()); // next 02:00 in Madrid
+ * schedule.previous(new Date()); // last 02:00 in Madrid
+ */
+export class CronSchedule implements TickSchedule {
+  private readonly seconds: Set<number>;
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly days: Set<number>;
+  private readonly months: Set<number>;
+  private readonly weekDays: Set<number>;
+  private readonly format: Intl.DateTimeFormat | null;
+
+  constructor(expression: string, timezone = 'UTC') {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length === 5) {
+      fields.unshift('0');
+    }
+    if (fields.length !== 6) {
+      throw new Error(`Invalid cron expression "${expression}"`);
+    }
+
+    [this.seconds, this.minutes, this.hours, this.days, this.months, this.weekDays] = fields.map(
+      (field, index) => parseField(field, index, expression)
+    ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+    this.format =
+      timezone === 'UTC'
+        ? null
+        : new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+          });
+  }
+
+  /**
+   * First tick strictly after `after`, or null if the expression never matches
+   */
+  public next(after: Date): Date | null {
+    let wall = this.toWall(after.getTime()) + 1000;
+    const limit = wall + MAX_SEARCH_MS;
+
+    while (wall <= limit) {
+      const date = new Date(wall);
+      const [year, month, day, hour, minute] = [
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+        date.getUTCHours(),
+        date.getUTCMinutes(),
+      ];
+
+      if (!this.months.has(month + 1)) {
+        wall = Date.UTC(year, month + 1, 1);
+      } else if (!this.days.has(day) || !this.weekDays.has(date.getUTCDay())) {
+        wall = Date.UTC(year, month, day + 1);
+      } else if (!this.hours.has(hour)) {
+        wall = Date.UTC(year, month, day, hour + 1);
+      } else if (!this.minutes.has(minute)) {
+        wall = Date.UTC(year, month, day, hour, minute + 1);
+      } else if (!this.seconds.has(date.getUTCSeconds())) {
+        wall += 1000;
+      } else {
+        const instant = this.fromWall(wall);
+        if (instant > after.getTime()) {
+          return new Date(instant);
+        }
+        wall += 1000;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Last tick strictly before `before`, or null if the expression never matches
+   */
+  public previous(before: Date): Date | null {
+    let wall = this.toWall(before.getTime() - 1);
+    const limit = wall - MAX_SEARCH_MS;
+
+    while (wall >= limit) {
+      const date = new Date(wall);
+      const [year, month, day, hour, minute] = [
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+        date.getUTCHours(),
+        date.getUTCMinutes(),
+      ];
+
+      if (!this.months.has(month + 1)) {
+        wall = Date.UTC(year, month, 1) - 1000;
+      } else if (!this.days.has(day) || !this.weekDays.has(date.getUTCDay())) {
+        wall = Date.UTC(year, month, day) - 1000;
+      } else if (!this.hours.has(hour)) {
+        wall = Date.UTC(year, month, day, hour) - 1000;
+      } else if (!this.minutes.has(minute)) {
+        wall = Date.UTC(year, month, day, hour, minute) - 1000;
+      } else if (!this.seconds.has(date.getUTCSeconds())) {
+        wall -= 1000;
+      } else {
+        const instant = this.fromWall(wall);
+        if (instant < before.getTime()) {
+          return new Date(instant);
+        }
+        wall -= 1000;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Wall clock time of an instant in the schedule's time zone, truncated to the second
+   */
+  private toWall(instant: number): number {
+    const second = Math.floor(instant / 1000) * 1000;
+    if (!this.format) {
+      return second;
+    }
+
+    const parts: Record<string, number> = {};
+    for (const part of this.format.formatToParts(second)) {
+      parts[part.type] = Number(part.value);
+    }
+    return Date.UTC(
+      parts['year'] ?? 0,
+      (parts['month'] ?? 1) - 1,
+      parts['day'] ?? 1,
+      parts['hour'] ?? 0,
+      parts['minute'] ?? 0,
+      parts['second'] ?? 0
+    );
+  }
+
+  /**
+   * Instant showing `wall` on the clock. Wall times skipped or repeated by a
+   * DST change resolve to a single instant next to the change.
+   */
+  private fromWall(wall: number): number {
+    if (!this.format) {
+      return wall;
+    }
+    const guess = wall - (this.toWall(wall) - wall);
+    return wall - (this.toWall(guess) - guess);
+  }
+}
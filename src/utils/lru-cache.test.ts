@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LruCache } from './lru-cache.js';
+
+describe('LruCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = new LruCache<string>(2, 60_000);
+    cache.set('a', '1');
+    cache.set('b', '2');
+    expect(cache.get('a')).toBe('1');
+
+    cache.set('c', '3');
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe('1');
+    expect(cache.get('c')).toBe('3');
+    expect(cache.size).toBe(2);
+  });
+
+  it('expires entries after the default or a shorter ttl', () => {
+    vi.useFakeTimers();
+    const cache = new LruCache<string>(10, 1_000);
+    cache.set('a', '1');
+    cache.set('b', '2', 100);
+    cache.set('c', '3', 5_000);
+
+    vi.advanceTimersByTime(200);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe('1');
+
+    vi.advanceTimersByTime(1_000);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('c')).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+interface LruEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Size-bounded in-memory cache with per-entry expiry.
+ * Relies on Map insertion order: reads move an entry to the end,
+ * so the first entry is always the least recently used.
+ */
+export class LruCache<V> {
+  private readonly entries = new Map<string, LruEntry<V>>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number
+  ) {}
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Store a value. `ttlMs` can only shorten the default lifetime.
+   */
+  public set(key: string, value: V, ttlMs?: number): void {
+    const lifetime = ttlMs !== undefined ? Math.min(ttlMs, this.ttlMs) : this.ttlMs;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + lifetime });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      this.entries.delete(oldest.value);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
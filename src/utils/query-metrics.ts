@@ -0,0 +1,77 @@
+import type { DatabaseQueryStats } from '../types.js';
+
+const MAX_REDACTED_SQL_LENGTH = 1000;
+
+/**
+ * Strip literal values from a SQL statement so it can be logged safely.
+ * Quoted strings and numeric literals are replaced with `?`, whitespace is collapsed.
+ *
+ * @example
+ * redactSql("SELECT * FROM users WHERE email = 'a@b.c' AND age > 30")
+ * // "SELECT * FROM users WHERE email = ? AND age > ?"
+ */
+export function redactSql(sql: string): string {
+  const redacted = sql
+    .replace(/'(?:[^'\\]|\\.|'')*'/g, '?')
+    .replace(/(?<![\w$])-?\d+(?:\.\d+)?\b/g, '?')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return redacted.length > MAX_REDACTED_SQL_LENGTH
+    ? `${redacted.slice(0, MAX_REDACTED_SQL_LENGTH)}…`
+    : redacted;
+}
+
+/**
+ * Rolling query counters for a single connection.
+ * Latency percentiles are computed over the most recent `sampleSize` queries.
+ */
+export class QueryMetrics {
+  private count = 0;
+  private errors = 0;
+  private slowQueries = 0;
+  private maxMs = 0;
+  private readonly samples: number[] = [];
+  private next = 0;
+
+  constructor(private readonly sampleSize = 1000) {}
+
+  public record(durationMs: number, success: boolean, slow: boolean): void {
+    this.count++;
+    if (!success) this.errors++;
+    if (slow) this.slowQueries++;
+    this.maxMs = Math.max(this.maxMs, durationMs);
+
+    if (this.samples.length < this.sampleSize) {
+      this.samples.push(durationMs);
+    } else {
+      this.samples[this.next] = durationMs;
+    }
+    this.next = (this.next + 1) % this.sampleSize;
+  }
+
+  public snapshot(): DatabaseQueryStats {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const percentile = (p: number): number => {
+      if (sorted.length === 0) return 0;
+      const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+      return round(sorted[Math.max(0, index)] ?? 0);
+    };
+
+    return {
+      count: this.count,
+      errors: this.errors,
+      slowQueries: this.slowQueries,
+      latencyMs: {
+        p50: percentile(50),
+        p95: percentile(95),
+        p99: percentile(99),
+        max: round(this.maxMs),
+      },
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { commandKey, keySlot, sendClusterCommand, type RedisClusterLike } from './redis-cluster.js';
+
+function createCluster(nodes: Record<string, string[]>[]): RedisClusterLike & {
+  sendCommand: ReturnType<typeof vi.fn>;
+} {
+  const masters = nodes.map((pages, index) => ({ index, pages }));
+  return {
+    masters,
+    nodeClient: (node) => ({
+      sendCommand: async (args: unknown[]) => {
+        const { pages } = node as { pages: Record<string, string[]> };
+        const cursor = String(args[1]);
+        const next = Object.keys(pages).find((key) => Number(key) > Number(cursor)) ?? '0';
+        return [next, pages[cursor] ?? []];
+      },
+    }),
+    sendCommand: vi.fn(async (_key: unknown, _readonly: unknown, args: unknown[]) => {
+      if (args[0] === 'MGET') return args.slice(1).map((key) => `value:${String(key)}`);
+      if (args[0] === 'DEL') return args.length - 1;
+      return 'OK';
+    }),
+  };
+}
+
+describe('redis cluster routing', () => {
+  it('computes hash slots with hash tags', () => {
+    expect(keySlot('foo')).toBe(12182);
+    expect(keySlot('123456789')).toBe(12739);
+    expect(keySlot('{user:1}:profile')).toBe(keySlot('{user:1}:settings'));
+  });
+
+  it('finds the routing key of scripts and stream reads', () => {
+    expect(commandKey(['GET', 'a'])).toBe('a');
+    expect(commandKey(['EVALSHA', 'sha', 1, 'lock:a', 'token'])).toBe('lock:a');
+    expect(commandKey(['EVAL', 'return 1', 0])).toBeUndefined();
+    expect(
+      commandKey(['XREADGROUP', 'GROUP', 'g', 'c', 'COUNT', '10', 'STREAMS', 'katax:logs', '>'])
+    ).toBe('katax:logs');
+    expect(commandKey(['XGROUP', 'CREATE', 'katax:logs', 'g', '$'])).toBe('katax:logs');
+    expect(commandKey(['PING'])).toBeUndefined();
+  });
+
+  it('walks every master with a node-encoded SCAN cursor', async () => {
+    const cluster = createCluster([{ '0': ['a'], '7': ['b'] }, { '0': ['c'] }]);
+
+    const seen: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, keys] = (await sendClusterCommand(cluster, ['SCAN', cursor, 'MATCH', '*'])) as [
+        string,
+        string[],
+      ];
+      seen.push(...keys);
+      cursor = next;
+    } while (cursor !== '0');
+
+    expect(seen).toEqual(['a', 'b', 'c']);
+  });
+
+  it('splits multi-key commands per slot and keeps MGET order', async () => {
+    const cluster = createCluster([]);
+
+    await expect(sendClusterCommand(cluster, ['DEL', 'foo', '{foo}:2', 'bar'])).resolves.toBe(3);
+    expect(cluster.sendCommand).toHaveBeenCalledWith('foo', false, ['DEL', 'foo', '{foo}:2']);
+    expect(cluster.sendCommand).toHaveBeenCalledWith('bar', false, ['DEL', 'bar']);
+
+    await expect(sendClusterCommand(cluster, ['MGET', 'bar', 'foo', 'baz'])).resolves.toEqual([
+      'value:bar',
+      'value:foo',
+      'value:baz',
+    ]);
+
+    await sendClusterCommand(cluster, ['SET', 'foo', '1']);
+    expect(cluster.sendCommand).toHaveBeenLastCalledWith('foo', false, ['SET', 'foo', '1']);
+  });
+});
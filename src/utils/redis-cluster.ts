@@ -0,0 +1,269 @@
+export type RedisArg = string | number | Buffer;
+
+const SLOT_COUNT = 16384;
+
+/**
+ * Commands that do not address a key; routed to any node in a cluster
+ */
+const KEYLESS_COMMANDS = new Set([
+  'PING',
+  'ECHO',
+  'INFO',
+  'TIME',
+  'DBSIZE',
+  'CLIENT',
+  'CLUSTER',
+  'COMMAND',
+  'CONFIG',
+  'SCRIPT',
+  'FUNCTION',
+  'PUBLISH',
+  'PUBSUB',
+]);
+
+const READONLY_COMMANDS = new Set([
+  'GET',
+  'MGET',
+  'EXISTS',
+  'TTL',
+  'PTTL',
+  'TYPE',
+  'STRLEN',
+  'HGET',
+  'HGETALL',
+  'HMGET',
+  'SMEMBERS',
+  'SISMEMBER',
+  'SCARD',
+  'ZRANGE',
+  'ZSCORE',
+  'ZCARD',
+  'LRANGE',
+  'LLEN',
+  'XRANGE',
+  'XREVRANGE',
+  'XLEN',
+  'XINFO',
+  'SCAN',
+  'INFO',
+  'PING',
+]);
+
+/**
+ * Multi-key commands whose reply is the sum of the per-key replies
+ */
+const SUMMED_MULTI_KEY_COMMANDS = new Set(['DEL', 'UNLINK', 'EXISTS', 'TOUCH']);
+
+/**
+ * Subset of the node-redis cluster client used by katax
+ */
+export interface RedisClusterLike {
+  sendCommand: (
+    firstKey: RedisArg | undefined,
+    isReadonly: boolean | undefined,
+    args: RedisArg[]
+  ) => Promise<unknown>;
+  masters: unknown[];
+  nodeClient: (node: unknown) => unknown;
+}
+
+interface RedisNodeClientLike {
+  sendCommand: (args: RedisArg[]) => Promise<unknown>;
+}
+
+function isRedisNodeClientLike(client: unknown): client is RedisNodeClientLike {
+  return (
+    typeof client === 'object' &&
+    client !== null &&
+    typeof (client as Record<string, unknown>)['sendCommand'] === 'function'
+  );
+}
+
+function crc16(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Cluster hash slot of a key, honouring `{hash tags}`
+ *
+ * @example
+ * keySlot('{user:1}:profile') === keySlot('{user:1}:settings') // same slot
+ */
+export function keySlot(key: RedisArg): number {
+  let data = Buffer.isBuffer(key) ? key : Buffer.from(String(key));
+
+  const open = data.indexOf('{');
+  if (open !== -1) {
+    const close = data.indexOf('}', open + 1);
+    if (close > open + 1) {
+      data = data.subarray(open + 1, close);
+    }
+  }
+
+  return crc16(data) % SLOT_COUNT;
+}
+
+/**
+ * Whether a key carries a non-empty `{hash tag}`, so only that part decides its slot
+ */
+export function hasHashTag(key: string): boolean {
+  const open = key.indexOf('{');
+  return open !== -1 && key.indexOf('}', open + 1) > open + 1;
+}
+
+/**
+ * Percent-escape `%`, `{` and `}` so a key cannot close its `{…}` hash tag early
+ */
+export function escapeHashTag(key: string): string {
+  return key.replace(/[%{}]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Key a command is routed by, or undefined for keyless commands
+ */
+export function commandKey(args: RedisArg[]): RedisArg | undefined {
+  const command = String(args[0] ?? '').toUpperCase();
+
+  switch (command) {
+    case 'EVAL':
+    case 'EVALSHA':
+    case 'EVAL_RO':
+    case 'EVALSHA_RO':
+    case 'FCALL':
+    case 'FCALL_RO':
+      return Number(args[2]) > 0 ? args[3] : undefined;
+    case 'XREAD':
+    case 'XREADGROUP': {
+      const streams = args.findIndex((arg) => String(arg).toUpperCase() === 'STREAMS');
+      return streams === -1 ? undefined : args[streams + 1];
+    }
+    case 'XGROUP':
+    case 'XINFO':
+    case 'OBJECT':
+    case 'MEMORY':
+      return args[2];
+    default:
+      return KEYLESS_COMMANDS.has(command) ? undefined : args[1];
+  }
+}
+
+export function isReadonlyCommand(args: RedisArg[]): boolean {
+  return READONLY_COMMANDS.has(String(args[0] ?? '').toUpperCase());
+}
+
+function groupBySlot<T>(items: T[], key: (item: T) => RedisArg): T[][] {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    const slot = keySlot(key(item));
+    const group = groups.get(slot);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(slot, [item]);
+    }
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * SCAN over every master in turn. The returned cursor encodes the node
+ * (`<node>-<cursor>`), so callers keep the usual "loop until cursor is 0" shape.
+ */
+async function scanCluster(cluster: RedisClusterLike, args: RedisArg[]): Promise<unknown> {
+  const [, cursor = '0', ...options] = args;
+  const position = /^(\d+)-(\d+)$/.exec(String(cursor));
+  if (!position && String(cursor) !== '0') {
+    throw new Error(`Invalid cluster SCAN cursor "${String(cursor)}"`);
+  }
+
+  const index = position ? Number(position[1]) : 0;
+  const node = cluster.masters[index];
+  if (!node) {
+    return ['0', []];
+  }
+
+  const client = await cluster.nodeClient(node);
+  if (!isRedisNodeClientLike(client)) {
+    throw new Error('Invalid Redis cluster node client');
+  }
+
+  const [next, keys] = (await client.sendCommand(['SCAN', position?.[2] ?? '0', ...options])) as [
+    string,
+    string[],
+  ];
+
+  if (next !== '0') {
+    return [`${String(index)}-${next}`, keys];
+  }
+  return [index + 1 < cluster.masters.length ? `${String(index + 1)}-0` : '0', keys];
+}
+
+/**
+ * Send a command through a cluster client.
+ * - Single-key commands are routed by their key
+ * - DEL/UNLINK/EXISTS/TOUCH, MGET and MSET are split per hash slot
+ * - SCAN walks every master
+ */
+export async function sendClusterCommand(
+  cluster: RedisClusterLike,
+  args: RedisArg[]
+): Promise<unknown> {
+  const command = String(args[0] ?? '').toUpperCase();
+  const readonly = isReadonlyCommand(args);
+
+  if (command === 'SCAN') {
+    return scanCluster(cluster, args);
+  }
+
+  if (SUMMED_MULTI_KEY_COMMANDS.has(command) && args.length > 2) {
+    const replies = await Promise.all(
+      groupBySlot(args.slice(1), (key) => key).map((keys) =>
+        cluster.sendCommand(keys[0], readonly, [command, ...keys])
+      )
+    );
+    return replies.reduce<number>((sum, reply) => sum + Number(reply), 0);
+  }
+
+  if (command === 'MGET' && args.length > 2) {
+    const keys = args.slice(1).map((key, position) => ({ key, position }));
+    const values: unknown[] = new Array<unknown>(keys.length).fill(null);
+    await Promise.all(
+      groupBySlot(keys, (entry) => entry.key).map(async (group) => {
+        const reply = (await cluster.sendCommand(group[0]?.key, readonly, [
+          'MGET',
+          ...group.map((entry) => entry.key),
+        ])) as unknown[];
+        group.forEach((entry, index) => {
+          values[entry.position] = reply[index] ?? null;
+        });
+      })
+    );
+    return values;
+  }
+
+  if (command === 'MSET' && args.length > 3) {
+    const pairs: [RedisArg, RedisArg][] = [];
+    for (let i = 1; i + 1 < args.length; i += 2) {
+      const key = args[i];
+      const value = args[i + 1];
+      if (key !== undefined && value !== undefined) {
+        pairs.push([key, value]);
+      }
+    }
+    await Promise.all(
+      groupBySlot(pairs, ([key]) => key).map((group) =>
+        cluster.sendCommand(group[0]?.[0], false, ['MSET', ...group.flat()])
+      )
+    );
+    return 'OK';
+  }
+
+  return cluster.sendCommand(commandKey(args), readonly, args);
+}
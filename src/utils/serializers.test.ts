@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { compressedSerializer, jsonSerializer, typedJsonSerializer } from './serializers.js';
+
+describe('cache serializers', () => {
+  it('round-trips types that plain JSON loses', () => {
+    const value = {
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+      counters: new Map<string, bigint>([['views', 12345678901234567890n]]),
+      tags: new Set(['a', 'b']),
+      nested: [{ at: new Date(0) }, undefined],
+      plain: 'text',
+    };
+
+    const raw = typedJsonSerializer.serialize(value);
+
+    expect(typedJsonSerializer.deserialize(raw)).toEqual(value);
+    expect(typedJsonSerializer.deserialize(typedJsonSerializer.serialize(5n))).toBe(5n);
+    expect(JSON.parse(typedJsonSerializer.serialize({ a: 1 }))).toEqual({ json: { a: 1 } });
+  });
+
+  it('compresses values above the threshold only', () => {
+    const serializer = compressedSerializer(jsonSerializer, { threshold: 100 });
+    const large = { text: 'x'.repeat(1000) };
+
+    const small = serializer.serialize({ a: 1 });
+    const compressed = serializer.serialize(large);
+
+    expect(small).toBe('{"a":1}');
+    expect(compressed.length).toBeLessThan(200);
+    expect(serializer.deserialize(compressed)).toEqual(large);
+    expect(serializer.deserialize(small)).toEqual({ a: 1 });
+
+    const brotli = compressedSerializer(typedJsonSerializer, { threshold: 0, algorithm: 'brotli' });
+    expect(brotli.deserialize(brotli.serialize(new Set([large])))).toEqual(new Set([large]));
+  });
+});
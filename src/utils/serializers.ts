@@ -0,0 +1,179 @@
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from 'zlib';
+import type { CacheSerializer } from '../types.js';
+
+/**
+ * Plain JSON. `Date` becomes an ISO string, `Map`/`Set` become `{}` and `BigInt` throws.
+ */
+export const jsonSerializer: CacheSerializer = {
+  serialize: (value) => JSON.stringify(value ?? null),
+  deserialize: <T>(raw: string) => JSON.parse(raw) as T,
+};
+
+type TypedJsonTag = 'Date' | 'Map' | 'Set' | 'bigint' | 'undefined';
+type TypedJsonPath = (string | number)[];
+
+interface TypedJsonPayload {
+  json: unknown;
+  meta?: [TypedJsonPath, TypedJsonTag][];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+}
+
+function encode(
+  value: unknown,
+  path: TypedJsonPath,
+  meta: [TypedJsonPath, TypedJsonTag][]
+): unknown {
+  if (typeof value === 'bigint') {
+    meta.push([path, 'bigint']);
+    return value.toString();
+  }
+  if (value === undefined) {
+    meta.push([path, 'undefined']);
+    return null;
+  }
+  if (value instanceof Date) {
+    meta.push([path, 'Date']);
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (value instanceof Map) {
+    meta.push([path, 'Map']);
+    return Array.from(value, ([key, item], index) => [
+      encode(key, [...path, index, 0], meta),
+      encode(item, [...path, index, 1], meta),
+    ]);
+  }
+  if (value instanceof Set) {
+    meta.push([path, 'Set']);
+    return Array.from(value, (item, index) => encode(item, [...path, index], meta));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => encode(item, [...path, index], meta));
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      // Like JSON, undefined properties are dropped rather than tagged
+      if (item !== undefined) {
+        result[key] = encode(item, [...path, key], meta);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+function revive(value: unknown, tag: TypedJsonTag): unknown {
+  switch (tag) {
+    case 'bigint':
+      return BigInt(value as string);
+    case 'undefined':
+      return undefined;
+    case 'Date':
+      return value === null ? new Date(NaN) : new Date(value as string);
+    case 'Map':
+      return new Map(value as [unknown, unknown][]);
+    case 'Set':
+      return new Set(value as unknown[]);
+  }
+}
+
+/**
+ * superjson-style typed JSON: keeps `Date`, `Map`, `Set`, `BigInt` and `undefined`
+ * by storing `{ json, meta }`, where `meta` lists the path and type of every
+ * value that plain JSON would lose.
+ *
+ * @example
+ * const cache = katax.cache('cache', { serializer: typedJsonSerializer });
+ * await cache.set('session', { createdAt: new Date(), roles: new Set(['admin']) });
+ */
+export const typedJsonSerializer: CacheSerializer = {
+  serialize: (value) => {
+    const meta: [TypedJsonPath, TypedJsonTag][] = [];
+    const json = encode(value, [], meta);
+    const payload: TypedJsonPayload = meta.length > 0 ? { json, meta } : { json };
+    return JSON.stringify(payload);
+  },
+  deserialize: <T>(raw: string) => {
+    const { json, meta = [] } = JSON.parse(raw) as TypedJsonPayload;
+    let root = json;
+    // Deepest paths first, so containers are revived after their contents
+    const ordered = [...meta].sort(([a], [b]) => b.length - a.length);
+    for (const [path, tag] of ordered) {
+      const last = path[path.length - 1];
+      if (last === undefined) {
+        root = revive(root, tag);
+        continue;
+      }
+      let parent = root as Record<string | number, unknown>;
+      for (const segment of path.slice(0, -1)) {
+        parent = parent[segment] as Record<string | number, unknown>;
+      }
+      parent[last] = revive(parent[last], tag);
+    }
+    return root as T;
+  },
+};
+
+/**
+ * Options for compressedSerializer()
+ */
+export interface CompressedSerializerOptions {
+  /**
+   * Only values whose serialized form is at least this many bytes are compressed
+   * @default 1024
+   */
+  threshold?: number;
+
+  /**
+   * @default 'gzip'
+   */
+  algorithm?: 'gzip' | 'brotli';
+}
+
+/** Marks compressed values; never produced by the JSON serializers */
+const COMPRESSED_MARKER = '\u0001z:';
+
+/**
+ * Wrap a serializer so large values are compressed and stored as base64.
+ * Small values are stored as the inner serializer wrote them, and values written
+ * before compression was enabled are still readable.
+ *
+ * @example
+ * const cache = katax.cache('cache', {
+ *   serializer: compressedSerializer(typedJsonSerializer, { threshold: 2048, algorithm: 'brotli' }),
+ * });
+ */
+export function compressedSerializer(
+  inner: CacheSerializer = jsonSerializer,
+  options: CompressedSerializerOptions = {}
+): CacheSerializer {
+  const threshold = options.threshold ?? 1024;
+  const brotli = options.algorithm === 'brotli';
+
+  return {
+    serialize: (value): string => {
+      const raw = inner.serialize(value);
+      if (Buffer.byteLength(raw) < threshold) {
+        return raw;
+      }
+      const compressed = brotli ? brotliCompressSync(raw) : gzipSync(raw);
+      return `${COMPRESSED_MARKER}${brotli ? 'br' : 'gz'}:${compressed.toString('base64')}`;
+    },
+    deserialize: <T>(raw: string): T => {
+      if (!raw.startsWith(COMPRESSED_MARKER)) {
+        return inner.deserialize<T>(raw);
+      }
+      const algorithm = raw.slice(COMPRESSED_MARKER.length, COMPRESSED_MARKER.length + 2);
+      const data = Buffer.from(raw.slice(COMPRESSED_MARKER.length + 3), 'base64');
+      const text = (algorithm === 'br' ? brotliDecompressSync(data) : gunzipSync(data)).toString();
+      return inner.deserialize<T>(text);
+    },
+  };
+}
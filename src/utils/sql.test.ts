@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildInsert,
+  buildSelectOne,
+  buildUpdate,
+  buildUpsert,
+  compileSql,
+  quoteIdentifier,
+  sql,
+} from './sql.js';
+
+describe('sql tagged template', () => {
+  it('parameterizes interpolations with dialect placeholders', () => {
+    const email = "x' OR 1=1 --";
+    const active = sql`active = ${true}`;
+    const query = sql`SELECT * FROM users WHERE email = ${email} AND ${active} LIMIT ${10}`;
+
+    expect(compileSql(query, 'postgresql')).toEqual({
+      text: 'SELECT * FROM users WHERE email = $1 AND active = $2 LIMIT $3',
+      params: [email, true, 10],
+    });
+    expect(compileSql(query, 'mysql').text).toBe(
+      'SELECT * FROM users WHERE email = ? AND active = ? LIMIT ?'
+    );
+  });
+
+  it('quotes identifiers per dialect', () => {
+    expect(quoteIdentifier('public.users', 'postgresql')).toBe('"public"."users"');
+    expect(quoteIdentifier('user`s', 'mysql')).toBe('`user``s`');
+  });
+});
+
+describe('query builders', () => {
+  it('builds multi-row inserts with RETURNING except on MySQL', () => {
+    const rows = [
+      { name: 'a', age: 1 },
+      { age: 2, name: 'b' },
+    ];
+
+    expect(buildInsert('postgresql', 'users', rows)).toEqual({
+      text: 'INSERT INTO "users" ("name", "age") VALUES ($1, $2), ($3, $4) RETURNING *',
+      params: ['a', 1, 'b', 2],
+    });
+    expect(buildInsert('mysql', 'users', rows).text).toBe(
+      'INSERT INTO `users` (`name`, `age`) VALUES (?, ?), (?, ?)'
+    );
+    expect(() => buildInsert('sqlite', 'users', [{ a: 1 }, { b: 2 }])).toThrow(
+      'insertMany() rows must all have the same columns'
+    );
+  });
+
+  it('builds updates from where objects and fragments', () => {
+    expect(
+      buildUpdate(
+        'postgresql',
+        'users',
+        { name: 'x' },
+        { id: [1, 2], deleted_at: null },
+        {
+          returning: ['id'],
+        }
+      )
+    ).toEqual({
+      text: 'UPDATE "users" SET "name" = $1 WHERE "id" IN ($2, $3) AND "deleted_at" IS NULL RETURNING "id"',
+      params: ['x', 1, 2],
+    });
+    expect(
+      buildUpdate('mysql', 'users', { active: false }, sql`last_seen < ${'2024-01-01'}`)
+    ).toEqual({
+      text: 'UPDATE `users` SET `active` = ? WHERE last_seen < ?',
+      params: [false, '2024-01-01'],
+    });
+    expect(() => buildUpdate('sqlite', 'users', { name: 'x' }, {})).toThrow(
+      'update() requires a non-empty where clause'
+    );
+  });
+
+  it('builds upserts with ON CONFLICT or ON DUPLICATE KEY UPDATE', () => {
+    const row = { key: 'theme', value: 'dark' };
+
+    expect(buildUpsert('sqlite', 'settings', row, { conflict: ['key'] }).text).toBe(
+      'INSERT INTO "settings" ("key", "value") VALUES (?, ?) ON CONFLICT ("key") DO UPDATE SET "value" = EXCLUDED."value" RETURNING *'
+    );
+    expect(buildUpsert('mysql', 'settings', row, { conflict: ['key'] }).text).toBe(
+      'INSERT INTO `settings` (`key`, `value`) VALUES (?, ?) ON DUPLICATE KEY UPDATE `value` = VALUES(`value`)'
+    );
+    expect(buildUpsert('postgresql', 'settings', row, { conflict: ['key'], update: [] }).text).toBe(
+      'INSERT INTO "settings" ("key", "value") VALUES ($1, $2) ON CONFLICT ("key") DO NOTHING RETURNING *'
+    );
+  });
+
+  it('builds single-row selects', () => {
+    expect(buildSelectOne('postgresql', 'users', { email: 'a@b.c' }, { columns: ['id'] })).toEqual({
+      text: 'SELECT "id" FROM "users" WHERE "email" = $1 LIMIT 1',
+      params: ['a@b.c'],
+    });
+    expect(buildSelectOne('mysql', 'users').text).toBe('SELECT * FROM `users` LIMIT 1');
+  });
+});
@@ -0,0 +1,243 @@
+import type {
+  SqlFragment,
+  SqlSelectOptions,
+  SqlUpsertOptions,
+  SqlWhere,
+  SqlWriteOptions,
+} from '../types.js';
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite';
+
+/**
+ * SQL text with positional placeholders for the target dialect
+ */
+export interface CompiledSql {
+  text: string;
+  params: unknown[];
+}
+
+class SqlTemplate implements SqlFragment {
+  constructor(
+    public readonly strings: readonly string[],
+    public readonly values: readonly unknown[]
+  ) {}
+}
+
+/**
+ * Tagged template for parameterized SQL.
+ * Interpolated values become placeholders (`$1` on PostgreSQL, `?` on MySQL/SQLite);
+ * interpolated `sql` fragments are inlined, so conditions can be composed safely.
+ *
+ * @example
+ * const users = await db.query(sql`SELECT * FROM users WHERE email = ${email}`);
+ *
+ * const active = sql`active = ${true}`;
+ * await db.query(sql`SELECT id FROM users WHERE ${active} AND age > ${18}`);
+ */
+export function sql(strings: TemplateStringsArray, ...values: unknown[]): SqlFragment {
+  return new SqlTemplate([...strings], values);
+}
+
+export function isSqlFragment(value: unknown): value is SqlFragment {
+  return value instanceof SqlTemplate;
+}
+
+class ParamList {
+  public readonly params: unknown[] = [];
+
+  constructor(private readonly dialect: SqlDialect) {}
+
+  public add(value: unknown): string {
+    this.params.push(value);
+    return this.dialect === 'postgresql' ? `$${String(this.params.length)}` : '?';
+  }
+
+  public fragment(fragment: SqlFragment): string {
+    let text = fragment.strings[0] ?? '';
+    fragment.values.forEach((value, index) => {
+      text += isSqlFragment(value) ? this.fragment(value) : this.add(value);
+      text += fragment.strings[index + 1] ?? '';
+    });
+    return text;
+  }
+}
+
+/**
+ * Render a `sql` fragment for a dialect
+ */
+export function compileSql(fragment: SqlFragment, dialect: SqlDialect): CompiledSql {
+  const params = new ParamList(dialect);
+  const text = params.fragment(fragment);
+  return { text, params: params.params };
+}
+
+/**
+ * Quote a (optionally schema-qualified) identifier: "users" / `users`
+ */
+export function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  return name
+    .split('.')
+    .map((part) =>
+      dialect === 'mysql' ? `\`${part.replace(/`/g, '``')}\`` : `"${part.replace(/"/g, '""')}"`
+    )
+    .join('.');
+}
+
+function definedColumns(row: Record<string, unknown>): string[] {
+  return Object.keys(row).filter((column) => row[column] !== undefined);
+}
+
+function whereClause(where: SqlWhere, params: ParamList, dialect: SqlDialect): string {
+  if (isSqlFragment(where)) {
+    return params.fragment(where);
+  }
+
+  return Object.entries(where)
+    .filter(([, value]) => value !== undefined)
+    .map(([column, value]) => {
+      const id = quoteIdentifier(column, dialect);
+      if (value === null) {
+        return `${id} IS NULL`;
+      }
+      if (Array.isArray(value)) {
+        return value.length === 0
+          ? '1 = 0'
+          : `${id} IN (${value.map((item) => params.add(item)).join(', ')})`;
+      }
+      return `${id} = ${params.add(value)}`;
+    })
+    .join(' AND ');
+}
+
+function returningClause(options: SqlWriteOptions, dialect: SqlDialect): string {
+  if (dialect === 'mysql') {
+    return '';
+  }
+  const returning = options.returning ?? '*';
+  return returning === '*'
+    ? ' RETURNING *'
+    : ` RETURNING ${returning.map((column) => quoteIdentifier(column, dialect)).join(', ')}`;
+}
+
+function valuesClause(
+  rows: Record<string, unknown>[],
+  columns: string[],
+  params: ParamList
+): string {
+  return rows
+    .map((row) => `(${columns.map((column) => params.add(row[column] ?? null)).join(', ')})`)
+    .join(', ');
+}
+
+function insertColumns(rows: Record<string, unknown>[], operation: string): string[] {
+  const columns = definedColumns(rows[0] ?? {});
+  if (columns.length === 0) {
+    throw new Error(`${operation}() requires at least one column`);
+  }
+
+  const key = [...columns].sort().join(',');
+  for (const row of rows) {
+    if (definedColumns(row).sort().join(',') !== key) {
+      throw new Error(`${operation}() rows must all have the same columns`);
+    }
+  }
+  return columns;
+}
+
+export function buildInsert(
+  dialect: SqlDialect,
+  table: string,
+  rows: Record<string, unknown>[],
+  options: SqlWriteOptions = {}
+): CompiledSql {
+  const columns = insertColumns(rows, rows.length > 1 ? 'insertMany' : 'insert');
+  const params = new ParamList(dialect);
+  const text =
+    `INSERT INTO ${quoteIdentifier(table, dialect)} ` +
+    `(${columns.map((column) => quoteIdentifier(column, dialect)).join(', ')}) ` +
+    `VALUES ${valuesClause(rows, columns, params)}${returningClause(options, dialect)}`;
+  return { text, params: params.params };
+}
+
+export function buildUpdate(
+  dialect: SqlDialect,
+  table: string,
+  patch: Record<string, unknown>,
+  where: SqlWhere,
+  options: SqlWriteOptions = {}
+): CompiledSql {
+  const columns = definedColumns(patch);
+  if (columns.length === 0) {
+    throw new Error('update() requires at least one column to set');
+  }
+
+  const params = new ParamList(dialect);
+  const assignments = columns
+    .map((column) => `${quoteIdentifier(column, dialect)} = ${params.add(patch[column])}`)
+    .join(', ');
+  const condition = whereClause(where, params, dialect);
+  if (condition.trim().length === 0) {
+    throw new Error('update() requires a non-empty where clause');
+  }
+
+  const text =
+    `UPDATE ${quoteIdentifier(table, dialect)} SET ${assignments} ` +
+    `WHERE ${condition}${returningClause(options, dialect)}`;
+  return { text, params: params.params };
+}
+
+export function buildUpsert(
+  dialect: SqlDialect,
+  table: string,
+  row: Record<string, unknown>,
+  options: SqlUpsertOptions
+): CompiledSql {
+  if (options.conflict.length === 0) {
+    throw new Error('upsert() requires at least one conflict column');
+  }
+
+  const columns = insertColumns([row], 'upsert');
+  const updates = options.update ?? columns.filter((column) => !options.conflict.includes(column));
+  const q = (column: string): string => quoteIdentifier(column, dialect);
+  const params = new ParamList(dialect);
+
+  let conflict: string;
+  if (dialect === 'mysql') {
+    const assignments =
+      updates.length > 0
+        ? updates.map((column) => `${q(column)} = VALUES(${q(column)})`)
+        : options.conflict.slice(0, 1).map((column) => `${q(column)} = ${q(column)}`);
+    conflict = ` ON DUPLICATE KEY UPDATE ${assignments.join(', ')}`;
+  } else {
+    const target = options.conflict.map(q).join(', ');
+    conflict =
+      updates.length > 0
+        ? ` ON CONFLICT (${target}) DO UPDATE SET ${updates
+            .map((column) => `${q(column)} = EXCLUDED.${q(column)}`)
+            .join(', ')}`
+        : ` ON CONFLICT (${target}) DO NOTHING`;
+  }
+
+  const text =
+    `INSERT INTO ${q(table)} (${columns.map(q).join(', ')}) ` +
+    `VALUES ${valuesClause([row], columns, params)}${conflict}${returningClause(options, dialect)}`;
+  return { text, params: params.params };
+}
+
+export function buildSelectOne(
+  dialect: SqlDialect,
+  table: string,
+  where: SqlWhere = {},
+  options: SqlSelectOptions = {}
+): CompiledSql {
+  const params = new ParamList(dialect);
+  const columns = options.columns?.length
+    ? options.columns.map((column) => quoteIdentifier(column, dialect)).join(', ')
+    : '*';
+  const condition = whereClause(where, params, dialect);
+
+  const text =
+    `SELECT ${columns} FROM ${quoteIdentifier(table, dialect)}` +
+    `${condition.trim().length > 0 ? ` WHERE ${condition}` : ''} LIMIT 1`;
+  return { text, params: params.params };
+}